@@ -1,19 +1,52 @@
 import { LeftPlot } from './components/LeftPlot';
 import { RightPlot } from './components/RightPlot';
+import { InversionPanel } from './components/InversionPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { LayerTable } from './components/LayerTable';
+import { SiteParametersPanel } from './components/SiteParametersPanel';
+import { ConstraintsPanel } from './components/ConstraintsPanel';
+import { ProjectPanel } from './components/ProjectPanel';
+import { SiteNavigator } from './components/SiteNavigator';
+import { CrossSection } from './components/CrossSection';
+import { AppStoreProvider } from './store/AppStoreProvider';
 
 export default function App() {
     return (
-        <div className="container mx-auto min-h-screen bg-gray-100 p-4">
-            <div className="flex flex-col lg:flex-row justify-center gap-8">
-                <div className="w-full lg:w-[600px]">
-                    <div className="text-center mb-4 text-lg font-semibold">Left Plot</div>
-                    <LeftPlot/>
+        <AppStoreProvider>
+            <div className="container mx-auto min-h-screen bg-gray-100 p-4">
+                <ProjectPanel />
+                <SiteNavigator />
+                <div className="flex flex-col lg:flex-row justify-center gap-8">
+                    <div className="w-full lg:w-[600px]">
+                        <div className="text-center mb-4 text-lg font-semibold">Left Plot</div>
+                        <LeftPlot />
+                    </div>
+                    <div className="w-full lg:w-[600px]">
+                        <div className="text-center mb-4 text-lg font-semibold">Right Plot</div>
+                        <RightPlot />
+                        <div className="text-center my-4 text-lg font-semibold">Layers</div>
+                        <LayerTable />
+                        <div className="text-center my-4 text-lg font-semibold">Site Parameters</div>
+                        <SiteParametersPanel />
+                        <div className="text-center my-4 text-lg font-semibold">Constraints</div>
+                        <ConstraintsPanel />
+                        <div className="text-center my-4 text-lg font-semibold">History</div>
+                        <HistoryPanel />
+                    </div>
                 </div>
-                <div className="w-full lg:w-[600px]">
-                    <div className="text-center mb-4 text-lg font-semibold">Right Plot</div>
-                    <RightPlot />
+                <div className="flex justify-center mt-8">
+                    <div className="w-full lg:w-[1232px]">
+                        <div className="text-center mb-4 text-lg font-semibold">Cross-section</div>
+                        <CrossSection />
+                    </div>
+                </div>
+                <div className="flex justify-center mt-8">
+                    <div className="w-full lg:w-[1232px]">
+                        <div className="text-center mb-4 text-lg font-semibold">Inversion</div>
+                        <InversionPanel />
+                    </div>
                 </div>
             </div>
-        </div>
+        </AppStoreProvider>
     );
 }
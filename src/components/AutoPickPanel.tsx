@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { DispersionImage, Point } from '../types';
+import { trackRidge } from '../utils/autoPick';
+
+interface AutoPickPanelProps {
+    image: DispersionImage;
+    seed: Point | null;
+    seedArmed: boolean;
+    onArmSeed: () => void;
+    onPicks: (points: Point[]) => void;
+}
+
+// Lowest frequency with a finite period, so the range never reaches 0 Hz
+const lowestPositiveFrequency = (image: DispersionImage) => Math.min(...image.frequencies.filter(frequency => frequency > 0));
+
+export const AutoPickPanel = ({ image, seed, seedArmed, onArmSeed, onPicks }: AutoPickPanelProps) => {
+    const [minFrequency, setMinFrequency] = useState(() => lowestPositiveFrequency(image));
+    const [maxFrequency, setMaxFrequency] = useState(() => Math.max(...image.frequencies));
+    const [maxJumpPercent, setMaxJumpPercent] = useState(5);
+    const [message, setMessage] = useState<string | null>(null);
+
+    // A new image brings its own frequency range
+    useEffect(() => {
+        setMinFrequency(lowestPositiveFrequency(image));
+        setMaxFrequency(Math.max(...image.frequencies));
+        setMessage(null);
+    }, [image]);
+
+    const handleTrack = () => {
+        if (!seed) return;
+        const picks = trackRidge(image, {
+            seed,
+            minFrequency: Math.max(lowestPositiveFrequency(image), minFrequency),
+            maxFrequency,
+            maxJump: maxJumpPercent / 100
+        });
+        if (picks.length === 0) {
+            setMessage('No ridge found at the seed within the frequency range');
+            return;
+        }
+        setMessage(`${picks.length} picks`);
+        onPicks(picks);
+    };
+
+    return (
+        <div className="w-full border border-gray-200 rounded-lg p-3 mb-4 text-sm text-gray-700">
+            <div className="font-semibold mb-2">Auto-pick ridge</div>
+            <div className="flex gap-4 flex-wrap items-center">
+                <button
+                    onClick={onArmSeed}
+                    className={`px-4 py-1 text-sm font-semibold rounded-full ${seedArmed ? 'bg-blue-600 text-white' : 'bg-blue-50 text-blue-700 hover:bg-blue-100'}`}
+                >
+                    {seedArmed ? 'Click the plot…' : 'Set seed'}
+                </button>
+                <span className="text-gray-500">
+                    {seed ? `Seed: ${seed.x.toFixed(3)} s, ${seed.y.toFixed(1)} m/s` : 'No seed'}
+                </span>
+                <label className="flex items-center gap-1">
+                    f min (Hz):
+                    <input
+                        type="number"
+                        value={minFrequency}
+                        min={lowestPositiveFrequency(image)}
+                        onChange={(e) => setMinFrequency(parseFloat(e.target.value))}
+                        className="w-20 px-1 border rounded"
+                    />
+                </label>
+                <label className="flex items-center gap-1">
+                    f max (Hz):
+                    <input
+                        type="number"
+                        value={maxFrequency}
+                        onChange={(e) => setMaxFrequency(parseFloat(e.target.value))}
+                        className="w-20 px-1 border rounded"
+                    />
+                </label>
+                <label className="flex items-center gap-1">
+                    Max jump (%):
+                    <input
+                        type="number"
+                        value={maxJumpPercent}
+                        min={0}
+                        step={1}
+                        onChange={(e) => setMaxJumpPercent(parseFloat(e.target.value))}
+                        className="w-16 px-1 border rounded"
+                    />
+                </label>
+                <button
+                    onClick={handleTrack}
+                    disabled={!seed || !(minFrequency < maxFrequency) || !(maxJumpPercent > 0)}
+                    className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                >
+                    Track ridge
+                </button>
+                {message && <span className="text-xs text-gray-500">{message}</span>}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,54 @@
+import { Scale, TICK_SPACING_X, TICK_SPACING_Y, formatTick } from '../utils/scale';
+
+interface AxisLabelsProps {
+    xScale: Scale;
+    yScale: Scale;
+    xTitle: string;
+    yTitle: string;
+}
+
+/**
+ * Tick labels and axis titles around a plot area; placed inside the plot's
+ * relatively positioned container and drawn outside its edges. Gridlines are
+ * drawn in Pixi from the same scales (drawGridlines).
+ */
+export const AxisLabels = ({ xScale, yScale, xTitle, yTitle }: AxisLabelsProps) => {
+    const xTicks = xScale.ticks(Math.abs(xScale.rangeEnd - xScale.rangeStart) / TICK_SPACING_X).major;
+    const yTicks = yScale.ticks(Math.abs(yScale.rangeEnd - yScale.rangeStart) / TICK_SPACING_Y).major;
+
+    return (
+        <>
+            {/* Y-axis ticks (left side) */}
+            {yTicks.map(value => (
+                <div
+                    key={`y${value}`}
+                    className="absolute text-xs pointer-events-none"
+                    style={{ right: 'calc(100% + 4px)', top: yScale.toScreen(value), transform: 'translateY(-50%)' }}
+                >
+                    {formatTick(value)}
+                </div>
+            ))}
+
+            {/* X-axis ticks (bottom) */}
+            {xTicks.map(value => (
+                <div
+                    key={`x${value}`}
+                    className="absolute text-xs pointer-events-none"
+                    style={{ top: 'calc(100% + 2px)', left: xScale.toScreen(value), transform: 'translateX(-50%)' }}
+                >
+                    {formatTick(value)}
+                </div>
+            ))}
+
+            <div className="absolute left-0 w-full text-center text-xs font-medium text-gray-600 pointer-events-none" style={{ top: 'calc(100% + 18px)' }}>
+                {xTitle}
+            </div>
+            <div
+                className="absolute top-1/2 text-xs font-medium text-gray-600 whitespace-nowrap pointer-events-none"
+                style={{ right: 'calc(100% + 40px)', transform: 'translate(50%, -50%) rotate(-90deg)' }}
+            >
+                {yTitle}
+            </div>
+        </>
+    );
+};
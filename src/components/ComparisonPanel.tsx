@@ -0,0 +1,131 @@
+import { useAppDispatch, useAppState } from '../store/context';
+import { parseModelFile } from '../utils/modelFile';
+import { ENVELOPE_PERCENTILES, OverlayStyle, overlayStyle } from '../utils/modelComparison';
+import { cssColor } from '../utils/modes';
+
+// A model in the comparison: the editable one, or a comparison model by id
+export type ModelKey = 'active' | number;
+
+const ACTIVE_MODEL_STYLE: OverlayStyle = { color: 0xFF0000, dash: null };
+
+interface ComparisonPanelProps {
+    difference: [ModelKey, ModelKey] | null;
+    onDifferenceChange: (difference: [ModelKey, ModelKey] | null) => void;
+    showEnvelope: boolean;
+    onShowEnvelopeChange: (show: boolean) => void;
+}
+
+const LineSwatch = ({ style }: { style: OverlayStyle }) => (
+    <svg width="24" height="8" className="shrink-0">
+        <line x1="0" y1="4" x2="24" y2="4" stroke={cssColor(style.color)} strokeWidth="2" strokeDasharray={style.dash?.join(' ')} />
+    </svg>
+);
+
+const parseKey = (value: string): ModelKey => value === 'active' ? 'active' : Number(value);
+
+/** Legend and controls for the read-only models drawn over the editable one. */
+export const ComparisonPanel = ({ difference, onDifferenceChange, showEnvelope, onShowEnvelopeChange }: ComparisonPanelProps) => {
+    const { layers, modelFile, comparisonModels } = useAppState();
+    const dispatch = useAppDispatch();
+
+    const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        const models = await Promise.all(files.map(async file => ({ name: file.name, layers: parseModelFile(await file.text(), file.name).layers })));
+        const usable = models.filter(model => model.layers.length > 0);
+        if (usable.length > 0) dispatch({ type: 'addComparisonModels', models: usable });
+    };
+
+    const addSnapshot = () => {
+        const name = `${modelFile?.name ?? 'Model'} (snapshot ${comparisonModels.length + 1})`;
+        dispatch({ type: 'addComparisonModels', models: [{ name, layers }] });
+    };
+
+    const visibleCount = comparisonModels.filter(model => model.visible).length;
+    const modelOptions = [
+        <option key="active" value="active">Active model</option>,
+        ...comparisonModels.map(model => <option key={model.id} value={model.id}>{model.name}</option>),
+    ];
+
+    return (
+        <div className="flex flex-col gap-2 mb-4 text-xs text-gray-700">
+            <div className="flex gap-3 flex-wrap items-center justify-center">
+                <span className="flex items-center gap-1">
+                    <LineSwatch style={ACTIVE_MODEL_STYLE} />
+                    Active model (editable)
+                </span>
+                {comparisonModels.map((model, index) => (
+                    <span key={model.id} className="flex items-center gap-1">
+                        <input
+                            type="checkbox"
+                            checked={model.visible}
+                            onChange={(e) => dispatch({ type: 'setComparisonVisible', id: model.id, visible: e.target.checked })}
+                        />
+                        <LineSwatch style={overlayStyle(index)} />
+                        {model.name}
+                        <button
+                            onClick={() => dispatch({ type: 'removeComparisonModel', id: model.id })}
+                            className="px-1 text-gray-500 hover:text-red-600"
+                            title="Remove from the comparison"
+                        >
+                            ×
+                        </button>
+                    </span>
+                ))}
+            </div>
+
+            <div className="flex gap-3 flex-wrap items-center justify-center">
+                <label className="px-3 py-0.5 font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 cursor-pointer">
+                    Add model files
+                    <input type="file" multiple accept=".txt" onChange={handleFiles} className="hidden" />
+                </label>
+                <button
+                    onClick={addSnapshot}
+                    disabled={layers.length === 0}
+                    className="px-3 py-0.5 font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                >
+                    Add current model
+                </button>
+
+                <label className="flex items-center gap-1">
+                    <input
+                        type="checkbox"
+                        checked={difference !== null}
+                        disabled={comparisonModels.length === 0}
+                        onChange={(e) => onDifferenceChange(e.target.checked ? ['active', comparisonModels[0].id] : null)}
+                    />
+                    Difference
+                </label>
+                {difference && (
+                    <>
+                        <select
+                            value={difference[0]}
+                            onChange={(e) => onDifferenceChange([parseKey(e.target.value), difference[1]])}
+                            className="px-1 py-0.5 border rounded"
+                        >
+                            {modelOptions}
+                        </select>
+                        minus
+                        <select
+                            value={difference[1]}
+                            onChange={(e) => onDifferenceChange([difference[0], parseKey(e.target.value)])}
+                            className="px-1 py-0.5 border rounded"
+                        >
+                            {modelOptions}
+                        </select>
+                    </>
+                )}
+
+                <label className="flex items-center gap-1" title="Across the visible comparison models">
+                    <input
+                        type="checkbox"
+                        checked={showEnvelope}
+                        disabled={visibleCount < 2}
+                        onChange={(e) => onShowEnvelopeChange(e.target.checked)}
+                    />
+                    {`Envelope (median, ${ENVELOPE_PERCENTILES[0] * 100}–${ENVELOPE_PERCENTILES[1] * 100}%)`}
+                </label>
+            </div>
+        </div>
+    );
+};
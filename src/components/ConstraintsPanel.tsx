@@ -0,0 +1,156 @@
+import { useAppDispatch, useAppState } from '../store/context';
+import { Bounds } from '../types';
+import { ModelConstraints, NO_BOUNDS, RatioKind, findViolations } from '../utils/constraints';
+
+interface OptionalNumberInputProps {
+    value: number | null;
+    onChange: (value: number | null) => void;
+    onCommit?: () => void;   // on blur, once typing is done
+    step?: number;
+}
+
+// Blank means no limit
+const OptionalNumberInput = ({ value, onChange, onCommit, step }: OptionalNumberInputProps) => (
+    <input
+        type="number"
+        min={0}
+        step={step}
+        value={value ?? ''}
+        onChange={(e) => {
+            if (e.target.value.trim() === '') {
+                onChange(null);
+                return;
+            }
+            const numValue = parseFloat(e.target.value);
+            if (numValue >= 0) onChange(numValue);
+        }}
+        onBlur={onCommit}
+        className="w-16 px-1 border rounded"
+    />
+);
+
+interface BoundsInputsProps {
+    bounds: Bounds;
+    onChange: (bounds: Bounds) => void;
+    onCommit?: () => void;
+    step?: number;
+}
+
+const BoundsInputs = ({ bounds, onChange, onCommit, step }: BoundsInputsProps) => (
+    <>
+        <OptionalNumberInput value={bounds.min} onChange={(min) => onChange({ ...bounds, min })} onCommit={onCommit} step={step} />
+        to
+        <OptionalNumberInput value={bounds.max} onChange={(max) => onChange({ ...bounds, max })} onCommit={onCommit} step={step} />
+    </>
+);
+
+/** Physical rules for the layer model: drags in RightPlot clamp to them, and breaches are listed here. */
+export const ConstraintsPanel = () => {
+    const { layers, constraints, history } = useAppState();
+    const dispatch = useAppDispatch();
+    const update = (change: Partial<ModelConstraints>) => dispatch({ type: 'setConstraints', constraints: change });
+
+    const violations = findViolations(layers, constraints);
+
+    // Bounds live on the layer so they follow it through edits; the history entry is made once typing is done
+    const updateLayerBounds = (index: number, vsBounds: Bounds) => {
+        const newLayers = [...layers];
+        newLayers[index] = { ...layers[index], vsBounds };
+        dispatch({ type: 'setLayers', layers: newLayers });
+    };
+    const commitLayerBounds = (index: number) => {
+        const { min, max } = layers[index].vsBounds ?? NO_BOUNDS;
+        const saved = history.entries[history.index]?.layers[index]?.vsBounds ?? NO_BOUNDS;
+        if (saved.min === min && saved.max === max) return;
+        const describe = (value: number | null) => value !== null ? `${value}` : '–';
+        dispatch({ type: 'setLayers', layers, label: `Set layer ${index + 1} Vs bounds to ${describe(min)}–${describe(max)} m/s` });
+    };
+
+    return (
+        <div className="flex flex-col gap-2 border-2 border-gray-300 rounded-lg p-4 shadow-sm w-full text-sm text-gray-700">
+            <div className="flex gap-4 flex-wrap items-center">
+                <label className="flex items-center gap-1">
+                    Thickness (m):
+                    <OptionalNumberInput
+                        value={constraints.minThickness}
+                        onChange={(minThickness) => update({ minThickness: minThickness ?? 0 })}
+                        step={0.1}
+                    />
+                    to
+                    <OptionalNumberInput value={constraints.maxThickness} onChange={(maxThickness) => update({ maxThickness })} step={0.1} />
+                </label>
+                <label className="flex items-center gap-1">
+                    Vs (m/s):
+                    <BoundsInputs bounds={constraints.velocity} onChange={(velocity) => update({ velocity })} step={10} />
+                </label>
+                <label className="flex items-center gap-1">
+                    <input
+                        type="checkbox"
+                        checked={constraints.monotonic}
+                        onChange={(e) => update({ monotonic: e.target.checked })}
+                    />
+                    Vs increases with depth
+                </label>
+            </div>
+
+            <div className="flex gap-4 flex-wrap items-center">
+                <label className="flex items-center gap-1">
+                    <select
+                        value={constraints.ratioKind}
+                        onChange={(e) => update({ ratioKind: e.target.value as RatioKind, ratio: NO_BOUNDS })}
+                        className="px-1 py-0.5 border rounded"
+                    >
+                        <option value="vpVs">Vp/Vs</option>
+                        <option value="poisson">Poisson's ratio</option>
+                    </select>
+                    <BoundsInputs bounds={constraints.ratio} onChange={(ratio) => update({ ratio })} step={0.01} />
+                </label>
+                <label className="flex items-center gap-1">
+                    Snap depths to
+                    <OptionalNumberInput value={constraints.depthStep} onChange={(depthStep) => update({ depthStep })} step={0.5} />
+                    m
+                </label>
+                <label className="flex items-center gap-1">
+                    Snap Vs to
+                    <OptionalNumberInput value={constraints.velocityStep} onChange={(velocityStep) => update({ velocityStep })} step={5} />
+                    m/s
+                </label>
+            </div>
+
+            {layers.length > 0 && (
+                <details>
+                    <summary className="cursor-pointer text-xs text-gray-600">Vs bounds per layer</summary>
+                    <table className="text-xs mt-1">
+                        <tbody>
+                            {layers.map((layer, index) => (
+                                <tr key={index}>
+                                    <td className="px-2">{`${index + 1} (${layer.startDepth.toFixed(1)}-${layer.endDepth.toFixed(1)})`}</td>
+                                    <td className="px-2">
+                                        <span className="flex items-center gap-1">
+                                            <BoundsInputs
+                                                bounds={layer.vsBounds ?? NO_BOUNDS}
+                                                onChange={(bounds) => updateLayerBounds(index, bounds)}
+                                                onCommit={() => commitLayerBounds(index)}
+                                                step={10}
+                                            />
+                                        </span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </details>
+            )}
+
+            {violations.length > 0 ? (
+                <ul className="text-xs text-red-600">
+                    {violations.map((violation, i) => (
+                        <li key={i}>{`Layer ${violation.layerIndex + 1}: ${violation.message}`}</li>
+                    ))}
+                </ul>
+            ) : layers.length > 0 && (
+                <div className="text-xs text-gray-500">The model meets every constraint</div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,158 @@
+import { Application, extend } from '@pixi/react';
+import { Graphics, Container, Sprite, Texture } from 'pixi.js';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAppDispatch, useAppState } from '../store/context';
+import { createScale, drawGridlines } from '../utils/scale';
+import { SectionColumn, colormapGradient, columnExtents, renderSectionCanvas, velocityRange } from '../utils/crossSection';
+import { AxisLabels } from './AxisLabels';
+
+extend({ Graphics, Container, Sprite });
+
+const SECTION_HEIGHT = 320;
+const COLORMAP = 'jet';
+
+/**
+ * Pseudo-2D Vs section of the batch: each site's model at its station,
+ * interpolated in between. Clicking a column opens that site.
+ */
+export const CrossSection = () => {
+    const { sites, activeSite, layers } = useAppState();
+    const dispatch = useAppDispatch();
+    const plotRef = useRef<HTMLDivElement>(null);
+    const [width, setWidth] = useState(800);
+
+    useEffect(() => {
+        const updateWidth = () => {
+            if (plotRef.current) setWidth(plotRef.current.getBoundingClientRect().width);
+        };
+        updateWidth();
+        window.addEventListener('resize', updateWidth);
+        return () => window.removeEventListener('resize', updateWidth);
+    }, []);
+
+    // The open site's live layers, so edits show up straight away
+    const columns = useMemo<SectionColumn[]>(
+        () => sites
+            .map((site, siteIndex) => ({ siteIndex, station: site.station, layers: siteIndex === activeSite ? layers : site.layers }))
+            .filter(column => column.layers.length > 0)
+            .sort((a, b) => a.station - b.station),
+        [sites, activeSite, layers]
+    );
+
+    const stations = columns.map(column => column.station);
+    const span = stations.length > 1 ? Math.max(...stations) - Math.min(...stations) : 0;
+    const halfWidth = span > 0 ? span / (2 * (columns.length - 1)) : 1;
+    const extents = useMemo(() => columnExtents(columns, halfWidth), [columns, halfWidth]);
+    const maxDepth = Math.max(1, ...columns.flatMap(column => column.layers.map(layer => layer.endDepth)));
+
+    const xScale = useMemo(
+        () => createScale('linear', extents[0]?.[0] ?? 0, extents[extents.length - 1]?.[1] ?? 1, 0, width),
+        [extents, width]
+    );
+    const yScale = useMemo(() => createScale('linear', 0, maxDepth * 1.05, 0, SECTION_HEIGHT), [maxDepth]);
+    const range = useMemo(() => velocityRange(columns), [columns]);
+
+    const texture = useMemo(
+        () => columns.length > 0 ? Texture.from(renderSectionCanvas(columns, xScale, yScale, range, COLORMAP)) : null,
+        [columns, xScale, yScale, range]
+    );
+    useEffect(() => () => texture?.destroy(true), [texture]);
+
+    const drawOverlay = useCallback((g: Graphics) => {
+        g.clear();
+        drawGridlines(g, xScale, yScale);
+
+        // Each model's boundaries across the part of the section it owns
+        columns.forEach((column, i) => {
+            const left = xScale.toScreen(extents[i][0]);
+            const right = xScale.toScreen(extents[i][1]);
+            column.layers.slice(1).forEach(layer => {
+                const y = yScale.toScreen(layer.startDepth);
+                g.moveTo(left, y);
+                g.lineTo(right, y);
+            });
+        });
+        g.stroke({ width: 1.5, color: 0x000000, alpha: 0.8 });
+
+        // Station markers, the open site outlined
+        columns.forEach((column, i) => {
+            const x = xScale.toScreen(column.station);
+            g.moveTo(x, 0);
+            g.lineTo(x, SECTION_HEIGHT);
+            g.stroke({ width: column.siteIndex === activeSite ? 3 : 1, color: 0xFFFFFF, alpha: column.siteIndex === activeSite ? 1 : 0.6 });
+            if (column.siteIndex === activeSite) {
+                g.rect(xScale.toScreen(extents[i][0]), 0, xScale.toScreen(extents[i][1]) - xScale.toScreen(extents[i][0]), SECTION_HEIGHT);
+                g.stroke({ width: 2, color: 0xFFFFFF, alpha: 1 });
+            }
+        });
+    }, [columns, extents, xScale, yScale, activeSite]);
+
+    const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        const station = xScale.fromScreen(event.clientX - rect.left);
+        const index = extents.findIndex(([left, right]) => station >= left && station <= right);
+        if (index >= 0) dispatch({ type: 'openSite', index: columns[index].siteIndex });
+    };
+
+    const openSite = activeSite !== null ? sites[activeSite] : null;
+
+    return (
+        <div className="flex flex-col border-2 border-gray-300 rounded-lg p-4 shadow-sm w-full">
+            {columns.length === 0 ? (
+                <div className="text-sm text-gray-500 text-center">Load a batch of sites with layer models to see the section</div>
+            ) : (
+                <div className="flex gap-4 flex-wrap items-center justify-center mb-4 text-sm text-gray-700">
+                    <div className="flex items-center gap-2">
+                        <span>{`${range[0].toFixed(0)} m/s`}</span>
+                        <div className="w-48 h-3 border border-gray-400" style={{ background: colormapGradient(COLORMAP) }} />
+                        <span>{`${range[1].toFixed(0)} m/s`}</span>
+                    </div>
+                    {openSite && activeSite !== null && (
+                        <label className="flex items-center gap-1">
+                            {`Station of ${openSite.name}:`}
+                            <input
+                                type="number"
+                                value={openSite.station}
+                                onChange={(e) => {
+                                    const station = parseFloat(e.target.value);
+                                    if (isFinite(station)) dispatch({ type: 'setSiteStation', index: activeSite, station });
+                                }}
+                                className="w-24 px-1 border rounded"
+                            />
+                            m
+                        </label>
+                    )}
+                    <span className="text-xs text-gray-500">Click a column to open its site</span>
+                </div>
+            )}
+
+            <div
+                ref={plotRef}
+                className="relative border border-gray-200 rounded-lg bg-white shadow-sm ml-14 mb-10 w-[calc(100%-3.5rem)] cursor-pointer"
+                style={{ height: SECTION_HEIGHT }}
+                onClick={handleClick}
+            >
+                {columns.length > 0 && (
+                    <>
+                        <AxisLabels xScale={xScale} yScale={yScale} xTitle="Station (m)" yTitle="Depth (m)" />
+                        {columns.map(column => (
+                            <div
+                                key={column.siteIndex}
+                                className="absolute text-xs text-gray-700 pointer-events-none whitespace-nowrap"
+                                style={{ left: xScale.toScreen(column.station), bottom: 'calc(100% + 2px)', transform: 'translateX(-50%)' }}
+                            >
+                                {sites[column.siteIndex].name}
+                            </div>
+                        ))}
+                        <Application className="w-full h-full" width={width} height={SECTION_HEIGHT} background="white">
+                            <pixiContainer>
+                                {texture && <pixiSprite texture={texture} width={width} height={SECTION_HEIGHT} />}
+                                <pixiGraphics draw={drawOverlay} />
+                            </pixiContainer>
+                        </Application>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
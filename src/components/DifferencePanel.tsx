@@ -0,0 +1,61 @@
+import { Application, extend } from '@pixi/react';
+import { Graphics, Container } from 'pixi.js';
+import { useCallback, useMemo } from 'react';
+import { Scale } from '../utils/scale';
+
+extend({ Graphics, Container });
+
+interface DifferencePanelProps {
+    intervals: { top: number; bottom: number; difference: number }[];
+    depthScale: Scale;     // shared with the layer plot
+    width: number;
+    height: number;
+}
+
+/** Vs difference with depth between two models, on a symmetric axis around zero. */
+export const DifferencePanel = ({ intervals, depthScale, width, height }: DifferencePanelProps) => {
+    const range = useMemo(() => {
+        const max = Math.max(0, ...intervals.map(interval => Math.abs(interval.difference)));
+        return max > 0 ? max * 1.1 : 1;
+    }, [intervals]);
+
+    const toScreenX = useCallback((value: number) => width / 2 + (value / range) * (width / 2), [range, width]);
+
+    const drawDifference = useCallback((g: Graphics) => {
+        g.clear();
+
+        intervals.forEach(({ top, bottom, difference }) => {
+            const y0 = depthScale.toScreen(top);
+            const y1 = depthScale.toScreen(bottom);
+            const x = toScreenX(difference);
+            g.rect(Math.min(x, width / 2), y0, Math.abs(x - width / 2), y1 - y0);
+            g.fill({ color: difference >= 0 ? 0xD62728 : 0x1F77B4, alpha: 0.6 });
+        });
+
+        g.moveTo(width / 2, 0);
+        g.lineTo(width / 2, height);
+        g.stroke({ width: 1, color: 0x808080, alpha: 1 });
+    }, [intervals, depthScale, toScreenX, width, height]);
+
+    return (
+        <div className="relative shrink-0 border border-gray-200 rounded-lg bg-white shadow-sm" style={{ width, height }}>
+            <div className="absolute left-0 w-full text-center text-xs font-medium text-gray-600 pointer-events-none" style={{ bottom: 'calc(100% + 2px)' }}>
+                ΔVs
+            </div>
+            <Application className="w-full h-full" width={width} height={height} background="white">
+                <pixiContainer>
+                    <pixiGraphics draw={drawDifference} />
+                </pixiContainer>
+            </Application>
+            <div className="absolute left-0 text-xs pointer-events-none" style={{ top: 'calc(100% + 2px)' }}>
+                {`-${range.toFixed(0)}`}
+            </div>
+            <div className="absolute right-0 text-xs pointer-events-none" style={{ top: 'calc(100% + 2px)' }}>
+                {`+${range.toFixed(0)}`}
+            </div>
+            <div className="absolute left-0 w-full text-center text-xs font-medium text-gray-600 pointer-events-none" style={{ top: 'calc(100% + 18px)' }}>
+                m/s
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,66 @@
+import { useEffect } from 'react';
+import { useAppDispatch, useAppState } from '../store/context';
+
+export const HistoryPanel = () => {
+    const { history } = useAppState();
+    const dispatch = useAppDispatch();
+
+    const canUndo = history.index > 0;
+    const canRedo = history.index < history.entries.length - 1;
+
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), left alone inside form fields so they keep native undo
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+            const target = event.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+            event.preventDefault();
+            dispatch({ type: event.shiftKey ? 'redo' : 'undo' });
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [dispatch]);
+
+    return (
+        <div className="flex flex-col border-2 border-gray-300 rounded-lg p-4 shadow-sm w-full">
+            <div className="flex gap-2 justify-center mb-2">
+                <button
+                    onClick={() => dispatch({ type: 'undo' })}
+                    disabled={!canUndo}
+                    title="Undo (Ctrl+Z)"
+                    className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                >
+                    Undo
+                </button>
+                <button
+                    onClick={() => dispatch({ type: 'redo' })}
+                    disabled={!canRedo}
+                    title="Redo (Ctrl+Shift+Z)"
+                    className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                >
+                    Redo
+                </button>
+            </div>
+
+            <ol className="max-h-48 overflow-y-auto text-xs">
+                {history.entries.map((entry, index) => (
+                    <li
+                        key={index}
+                        onClick={() => dispatch({ type: 'jumpToHistory', index })}
+                        className={`px-2 py-0.5 rounded cursor-pointer ${
+                            index === history.index
+                                ? 'bg-blue-100 text-blue-800 font-semibold'
+                                : index > history.index
+                                    ? 'text-gray-400 hover:bg-gray-100'
+                                    : 'text-gray-700 hover:bg-gray-100'
+                        }`}
+                    >
+                        {`${index}. ${entry.label}`}
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
@@ -0,0 +1,254 @@
+import { Application, extend } from '@pixi/react';
+import { Graphics, Container } from 'pixi.js';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Layer } from '../types';
+import { useAppDispatch, useAppState } from '../store/context';
+import { InversionProgress, LayerBounds, defaultLayerBounds } from '../utils/inversion';
+import { misfitWeights, resolveUncertainties } from '../utils/uncertainty';
+import type { InversionMessage, InversionRequest } from '../workers/inversion.worker';
+
+extend({ Graphics, Container });
+
+type InversionStatus = 'idle' | 'running' | 'done' | 'cancelled' | 'error';
+
+const HISTORY_WIDTH = 320;
+const HISTORY_HEIGHT = 100;
+
+export const InversionPanel = () => {
+    const { layers, points, uncertaintySettings } = useAppState();
+    const dispatch = useAppDispatch();
+    const [bounds, setBounds] = useState<LayerBounds[]>([]);
+    const [invertDepths, setInvertDepths] = useState(false);
+    const [maxIterations, setMaxIterations] = useState(20);
+    const [status, setStatus] = useState<InversionStatus>('idle');
+    const [progress, setProgress] = useState<InversionProgress | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+    const [misfitLabel, setMisfitLabel] = useState('RMS');   // of the current run, which may predate a settings change
+    const workerRef = useRef<Worker | null>(null);
+    const startLayersRef = useRef<Layer[]>([]);
+
+    // Bounds follow the layer count; a split or a new file resets them to defaults
+    const layerBounds = bounds.length === layers.length ? bounds : layers.map(defaultLayerBounds);
+
+    useEffect(() => {
+        return () => workerRef.current?.terminate();
+    }, []);
+
+    const updateBounds = (index: number, change: Partial<LayerBounds>) => {
+        const newBounds = [...layerBounds];
+        newBounds[index] = { ...newBounds[index], ...change };
+        setBounds(newBounds);
+    };
+
+    const handleInvert = () => {
+        if (layers.length === 0 || points.length === 0) return;
+
+        const uncertainties = resolveUncertainties(points, uncertaintySettings);
+        const runMisfitLabel = misfitWeights(uncertainties) ? 'weighted RMS' : 'RMS';
+
+        const worker = new Worker(new URL('../workers/inversion.worker.ts', import.meta.url), { type: 'module' });
+        workerRef.current = worker;
+        startLayersRef.current = layers;
+        setStatus('running');
+        setProgress(null);
+        setErrorMessage(null);
+        setMisfitLabel(runMisfitLabel);
+
+        worker.onmessage = (event: MessageEvent<InversionMessage>) => {
+            const message = event.data;
+            if (message.type === 'error') {
+                setStatus('error');
+                setErrorMessage(message.message);
+                worker.terminate();
+                workerRef.current = null;
+                return;
+            }
+
+            // Show the best model on the plots as it improves; only the final result is an undo step
+            setProgress(message.progress);
+
+            if (message.type === 'progress') {
+                dispatch({ type: 'setLayers', layers: message.progress.bestLayers });
+            } else {
+                dispatch({
+                    type: 'setLayers',
+                    layers: message.progress.bestLayers,
+                    label: `Inversion (${runMisfitLabel} ${message.progress.bestMisfit.toFixed(2)})`
+                });
+                setStatus('done');
+                worker.terminate();
+                workerRef.current = null;
+            }
+        };
+
+        const request: InversionRequest = {
+            layers,
+            points,
+            options: { bounds: layerBounds, invertDepths, maxIterations, uncertainties }
+        };
+        worker.postMessage(request);
+    };
+
+    const handleCancel = () => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+        dispatch({ type: 'setLayers', layers: startLayersRef.current });
+        setStatus('cancelled');
+    };
+
+    const drawHistory = useCallback((g: Graphics) => {
+        g.clear();
+        const history = progress?.history ?? [];
+        if (history.length < 2) return;
+
+        const max = Math.max(...history);
+        const min = Math.min(...history);
+        const span = max - min || 1;
+
+        g.setStrokeStyle({ width: 2, color: 0x0000FF, alpha: 1 });
+        g.beginPath();
+        history.forEach((misfit, index) => {
+            const x = (index / (history.length - 1)) * HISTORY_WIDTH;
+            const y = ((max - misfit) / span) * (HISTORY_HEIGHT - 10) + 5;
+            if (index === 0) {
+                g.moveTo(x, y);
+            } else {
+                g.lineTo(x, y);
+            }
+        });
+        g.stroke();
+    }, [progress]);
+
+    const isRunning = status === 'running';
+    const percent = progress ? Math.round((progress.iteration / progress.maxIterations) * 100) : 0;
+
+    return (
+        <div className="flex flex-col border-2 border-gray-300 rounded-lg p-4 shadow-sm w-full">
+            <div className="flex gap-4 flex-wrap items-center justify-center mb-4">
+                <div className="flex items-center gap-2">
+                    <label className="text-sm font-medium text-gray-600">Iterations:</label>
+                    <input
+                        type="number"
+                        value={maxIterations}
+                        min={1}
+                        onChange={(e) => {
+                            const value = parseInt(e.target.value);
+                            if (!isNaN(value) && value > 0) setMaxIterations(value);
+                        }}
+                        className="w-20 px-2 py-1 text-sm border rounded shadow-sm"
+                        disabled={isRunning}
+                    />
+                </div>
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-600">
+                    <input
+                        type="checkbox"
+                        checked={invertDepths}
+                        onChange={(e) => setInvertDepths(e.target.checked)}
+                        disabled={isRunning}
+                    />
+                    Invert boundary depths
+                </label>
+                {isRunning ? (
+                    <button
+                        onClick={handleCancel}
+                        className="px-4 py-1 text-sm font-semibold rounded-full bg-red-50 text-red-700 hover:bg-red-100"
+                    >
+                        Cancel
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleInvert}
+                        disabled={layers.length === 0 || points.length === 0}
+                        className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                    >
+                        Invert
+                    </button>
+                )}
+            </div>
+
+            {(isRunning || progress) && (
+                <div className="mb-4">
+                    <div className="w-full h-2 bg-gray-200 rounded">
+                        <div className="h-2 bg-blue-500 rounded" style={{ width: `${percent}%` }} />
+                    </div>
+                    <div className="flex justify-between text-xs text-gray-600 mt-1">
+                        <span>{progress ? `Iteration ${progress.iteration} / ${progress.maxIterations}` : 'Starting...'}</span>
+                        <span>{progress && `Best ${misfitLabel}: ${progress.bestMisfit.toFixed(3)}`}</span>
+                        <span>{status !== 'running' && status}</span>
+                    </div>
+                </div>
+            )}
+
+            {errorMessage && <div className="text-sm text-red-600 mb-4">{errorMessage}</div>}
+
+            <div className="flex gap-4 flex-wrap justify-center">
+                {layers.length > 0 && (
+                    <table className="text-xs text-gray-700">
+                        <thead>
+                            <tr>
+                                <th className="px-2 text-left">Layer</th>
+                                <th className="px-2 text-left">Vs</th>
+                                <th className="px-2 text-left">Min Vs</th>
+                                <th className="px-2 text-left">Max Vs</th>
+                                <th className="px-2 text-left">Lock</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {layers.map((layer, index) => (
+                                <tr key={index}>
+                                    <td className="px-2">{`${index + 1} (${layer.startDepth.toFixed(1)}-${layer.endDepth.toFixed(1)})`}</td>
+                                    <td className="px-2">{layer.velocity.toFixed(1)}</td>
+                                    <td className="px-2">
+                                        <input
+                                            type="number"
+                                            value={layerBounds[index].minVelocity}
+                                            onChange={(e) => {
+                                                const value = parseFloat(e.target.value);
+                                                if (!isNaN(value)) updateBounds(index, { minVelocity: value });
+                                            }}
+                                            className="w-20 px-1 border rounded"
+                                            disabled={isRunning}
+                                        />
+                                    </td>
+                                    <td className="px-2">
+                                        <input
+                                            type="number"
+                                            value={layerBounds[index].maxVelocity}
+                                            onChange={(e) => {
+                                                const value = parseFloat(e.target.value);
+                                                if (!isNaN(value)) updateBounds(index, { maxVelocity: value });
+                                            }}
+                                            className="w-20 px-1 border rounded"
+                                            disabled={isRunning}
+                                        />
+                                    </td>
+                                    <td className="px-2 text-center">
+                                        <input
+                                            type="checkbox"
+                                            checked={layerBounds[index].locked}
+                                            onChange={(e) => updateBounds(index, { locked: e.target.checked })}
+                                            disabled={isRunning}
+                                        />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+
+                {progress && (
+                    <div className="flex flex-col items-center">
+                        <div className="text-xs text-gray-600 mb-1">Misfit history</div>
+                        <div className="border border-gray-200 rounded" style={{ width: HISTORY_WIDTH, height: HISTORY_HEIGHT }}>
+                            <Application width={HISTORY_WIDTH} height={HISTORY_HEIGHT} background="white">
+                                <pixiContainer>
+                                    <pixiGraphics draw={drawHistory} />
+                                </pixiContainer>
+                            </Application>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
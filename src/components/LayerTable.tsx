@@ -0,0 +1,183 @@
+import { useState, useRef } from 'react';
+import { Layer } from '../types';
+import { useAppDispatch, useAppState } from '../store/context';
+import { LayerField, updateLayerField } from '../utils/layerOperations';
+import { findViolations } from '../utils/constraints';
+
+interface Column {
+    field: LayerField;
+    label: string;
+    unit: string;
+    getValue: (layer: Layer) => number;
+}
+
+const COLUMNS: Column[] = [
+    { field: 'thickness', label: 'Thickness', unit: 'm', getValue: layer => layer.endDepth - layer.startDepth },
+    { field: 'top', label: 'Top', unit: 'm', getValue: layer => layer.startDepth },
+    { field: 'bottom', label: 'Bottom', unit: 'm', getValue: layer => layer.endDepth },
+    { field: 'velocity', label: 'Vs', unit: 'm/s', getValue: layer => layer.velocity },
+    { field: 'vp', label: 'Vp', unit: 'm/s', getValue: layer => layer.vp },
+    { field: 'density', label: 'Density', unit: '', getValue: layer => layer.density },
+];
+
+interface Draft {
+    row: number;
+    col: number;
+    text: string;
+}
+
+const formatValue = (value: number) => isFinite(value) ? String(Number(value.toFixed(3))) : '';
+
+export const LayerTable = () => {
+    const { layers, constraints } = useAppState();
+    const dispatch = useAppDispatch();
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [error, setError] = useState<{ row: number; col: number; message: string } | null>(null);
+    const tableRef = useRef<HTMLTableElement>(null);
+
+    const focusCell = (row: number, col: number) => {
+        const input = tableRef.current?.querySelector<HTMLInputElement>(`input[data-row="${row}"][data-col="${col}"]`);
+        input?.focus();
+        input?.select();
+    };
+
+    // Called on blur, so moving between cells by keyboard or mouse commits the edit
+    const commitDraft = () => {
+        if (!draft) return;
+        setDraft(null);
+
+        const column = COLUMNS[draft.col];
+        if (draft.text.trim() === formatValue(column.getValue(layers[draft.row]))) return;
+
+        const value = parseFloat(draft.text);
+        const result = updateLayerField(layers, draft.row, column.field, value);
+        if ('error' in result) {
+            setError({ row: draft.row, col: draft.col, message: result.error });
+            return;
+        }
+
+        dispatch({
+            type: 'setLayers',
+            layers: result.layers,
+            label: `Set layer ${draft.row + 1} ${column.label.toLowerCase()} to ${value}${column.unit ? ` ${column.unit}` : ''}`
+        });
+        setError(null);
+    };
+
+    const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>, row: number, col: number) => {
+        switch (event.key) {
+            case 'Enter':
+            case 'ArrowDown':
+                event.preventDefault();
+                if (row < layers.length - 1) {
+                    focusCell(row + 1, col);
+                } else {
+                    event.currentTarget.blur();
+                }
+                break;
+            case 'ArrowUp':
+                event.preventDefault();
+                if (row > 0) focusCell(row - 1, col);
+                break;
+            case 'Escape':
+                setDraft(null);
+                setError(null);
+                break;
+        }
+    };
+
+    // Tab-separated rows from a spreadsheet, written from the focused cell down and to the right
+    const handlePaste = (event: React.ClipboardEvent<HTMLInputElement>, row: number, col: number) => {
+        const text = event.clipboardData.getData('text');
+        const rows = text.split(/\r?\n/).filter(line => line.trim().length > 0).map(line => line.split('\t'));
+        if (rows.length === 0 || (rows.length === 1 && rows[0].length <= 1)) return;
+
+        event.preventDefault();
+        let newLayers = layers;
+        for (let r = 0; r < rows.length; r++) {
+            if (row + r >= newLayers.length) break;
+            for (let c = 0; c < rows[r].length && col + c < COLUMNS.length; c++) {
+                const result = updateLayerField(newLayers, row + r, COLUMNS[col + c].field, parseFloat(rows[r][c]));
+                if ('error' in result) {
+                    setError({ row: row + r, col: col + c, message: `Paste rejected: ${result.error}` });
+                    return;
+                }
+                newLayers = result.layers;
+            }
+        }
+
+        dispatch({ type: 'setLayers', layers: newLayers, label: `Paste ${rows.length} row${rows.length === 1 ? '' : 's'}` });
+        setDraft(null);
+        setError(null);
+    };
+
+    if (layers.length === 0) {
+        return (
+            <div className="border-2 border-gray-300 rounded-lg p-4 shadow-sm w-full text-sm text-gray-500 text-center">
+                Load a layer model to edit it here
+            </div>
+        );
+    }
+
+    // Explanations by layer, shown on the row number of layers that break a constraint
+    const violationMessages = new Map<number, string[]>();
+    findViolations(layers, constraints).forEach(({ layerIndex, message }) => {
+        violationMessages.set(layerIndex, [...(violationMessages.get(layerIndex) ?? []), message]);
+    });
+
+    return (
+        <div className="border-2 border-gray-300 rounded-lg p-4 shadow-sm w-full overflow-x-auto">
+            <table ref={tableRef} className="w-full text-xs text-gray-700">
+                <thead>
+                    <tr>
+                        <th className="px-1 text-left">#</th>
+                        {COLUMNS.map(column => (
+                            <th key={column.field} className="px-1 text-left">
+                                {column.unit ? `${column.label} (${column.unit})` : column.label}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {layers.map((layer, row) => (
+                        <tr key={row}>
+                            <td
+                                className={`px-1 ${violationMessages.has(row) ? 'bg-red-50 text-red-600 font-semibold' : ''}`}
+                                title={violationMessages.get(row)?.join('\n')}
+                            >
+                                {row + 1}
+                            </td>
+                            {COLUMNS.map((column, col) => {
+                                const isEditing = draft?.row === row && draft.col === col;
+                                const hasError = error?.row === row && error.col === col;
+                                return (
+                                    <td key={column.field} className="px-1">
+                                        <input
+                                            data-row={row}
+                                            data-col={col}
+                                            value={isEditing ? draft.text : formatValue(column.getValue(layer))}
+                                            onFocus={(e) => {
+                                                setDraft({ row, col, text: e.target.value });
+                                                e.target.select();
+                                            }}
+                                            onChange={(e) => setDraft({ row, col, text: e.target.value })}
+                                            onBlur={commitDraft}
+                                            onKeyDown={(e) => handleKeyDown(e, row, col)}
+                                            onPaste={(e) => handlePaste(e, row, col)}
+                                            className={`w-20 px-1 border rounded ${hasError ? 'border-red-500 bg-red-50' : ''}`}
+                                        />
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {error && (
+                <div className="text-xs text-red-600 mt-2">
+                    {`Layer ${error.row + 1}, ${COLUMNS[error.col].label}: ${error.message}`}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,20 +1,66 @@
 import { Application, extend } from '@pixi/react';
-import { Graphics, Container } from 'pixi.js';
-import { useState, useRef, useEffect } from 'react';
-import { Point } from '../types';
+import { Graphics, Container, Sprite, Texture } from 'pixi.js';
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { AxisLimits, Point } from '../types';
+import { useAppDispatch, useAppState } from '../store/context';
+import { computeDispersionCurve } from '../utils/dispersion';
+import { computeMisfit } from '../utils/misfit';
+import { ResidualPlot } from './ResidualPlot';
+import { PickImportDialog } from './PickImportDialog';
+import { AutoPickPanel } from './AutoPickPanel';
+import { ModeLegend } from './ModeLegend';
+import { UncertaintyControls } from './UncertaintyControls';
+import { resolveUncertainties } from '../utils/uncertainty';
+import { createScale, drawGridlines } from '../utils/scale';
+import { AxisLabels } from './AxisLabels';
+import { ViewportToolbar, ZoomBoxOverlay } from './ViewportControls';
+import { usePlotViewport } from '../hooks/usePlotViewport';
+import { dataLimits } from '../utils/viewport';
+import { layerPeriodBand } from '../utils/sensitivity';
+import { X_DOMAINS, XDomain, convertLimits, fromDomainX, periodRange, toDomainX, xDomainTitle } from '../utils/xDomain';
+import { cssColor, drawMarker, modeLabel, modeStyle, modesOf, pointMode } from '../utils/modes';
+import { formatPicksCsv } from '../utils/pickImport';
+import { downloadText } from '../utils/download';
+import {
+    COLORMAPS,
+    Colormap,
+    ImageNormalization,
+    NORMALIZATIONS,
+    imageExtents,
+    loadDispersionImage,
+    normalizeImage,
+    renderImageCanvas,
+    snapToSpectralMaximum,
+} from '../utils/dispersionImage';
 
-extend({ Graphics, Container });
+extend({ Graphics, Container, Sprite });
+
+// Shift-drag rectangle in screen pixels, from the press point to the cursor
+interface SelectionBox {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+const PICK_GRAB_DISTANCE = 8;
 
 export const LeftPlot = () => {
-    const [points, setPoints] = useState<Point[]>([]);
-    const [hoveredPoint, setHoveredPoint] = useState<Point | null>(null);
-    const [axisLimits, setAxisLimits] = useState({
-        xmin: 0.016,  // Period min
-        xmax: 0.6,    // Period max
-        ymin: 30,     // Velocity min
-        ymax: 500     // Velocity max
-    });
+    const { points, layers, leftAxisLimits: axisLimits, selection, dispersionImage, imageDisplay, uncertaintySettings, leftAxisScales, leftXDomain: xDomain, pseudoDepthDivisor, hiddenModes } = useAppState();
+    const dispatch = useAppDispatch();
+    const hoveredIndex = selection.hoveredPointIndex;
+    const hoveredPoint = hoveredIndex !== null ? points[hoveredIndex] ?? null : null;
     const [plotDimensions, setPlotDimensions] = useState({ width: 640, height: 480 });
+    const [pendingImport, setPendingImport] = useState<{ name: string; text: string } | null>(null);
+    const [imageError, setImageError] = useState<string | null>(null);
+    const [editPicks, setEditPicks] = useState(false);
+    const [snapToPeak, setSnapToPeak] = useState(false);
+    const [draggedPick, setDraggedPick] = useState<number | null>(null);
+    const [selectionBox, setSelectionBox] = useState<SelectionBox | null>(null);
+    const [selectedPicks, setSelectedPicks] = useState<number[]>([]);
+    const [ridgeSeed, setRidgeSeed] = useState<Point | null>(null);
+    const [seedArmed, setSeedArmed] = useState(false);
+    const [activeMode, setActiveMode] = useState(0);
     const plotRef = useRef<HTMLDivElement>(null);
     
     useEffect(() => {
@@ -25,62 +71,357 @@ export const LeftPlot = () => {
         }
     }, []);
 
+    // Velocity increases upwards
+    const xScale = useMemo(
+        () => createScale(leftAxisScales.x, axisLimits.xmin, axisLimits.xmax, 0, plotDimensions.width),
+        [leftAxisScales.x, axisLimits.xmin, axisLimits.xmax, plotDimensions.width]
+    );
+    const yScale = useMemo(
+        () => createScale(leftAxisScales.y, axisLimits.ymin, axisLimits.ymax, plotDimensions.height, 0),
+        [leftAxisScales.y, axisLimits.ymin, axisLimits.ymax, plotDimensions.height]
+    );
+
+    // Screen x of a period / velocity pair in the selected x domain
+    const screenXOf = useCallback(
+        (point: Point) => xScale.toScreen(toDomainX(xDomain, point.x, point.y)),
+        [xScale, xDomain]
+    );
+
+    // Picks if there are any, otherwise the dispersion image
+    const fitLimits = () => {
+        if (points.length > 0) {
+            return dataLimits(points.map(p => toDomainX(xDomain, p.x, p.y)), points.map(p => p.y));
+        }
+        return dispersionImage ? convertLimits(imageExtents(dispersionImage), 'period', xDomain) : null;
+    };
+
+    const viewport = usePlotViewport({ plot: 'left', plotRef, xScale, yScale, fitLimits });
+
+    const drawGrid = useCallback((g: Graphics) => {
+        g.clear();
+        drawGridlines(g, xScale, yScale);
+    }, [xScale, yScale]);
+
+    const isVisible = useCallback((point: Point) => !hiddenModes.includes(pointMode(point)), [hiddenModes]);
+
+    // Theoretical curves for the RightPlot model over the visible period range, one per shown mode
+    const modelCurves = useMemo(() => {
+        const modes = modesOf(points).filter(mode => !hiddenModes.includes(mode));
+        const [periodMin, periodMax] = periodRange(axisLimits, xDomain);
+        const spacing = xDomain === 'period' ? xScale.type : 'log';
+        return (modes.length > 0 ? modes : [0]).map(mode =>
+            computeDispersionCurve(layers, periodMin, periodMax, 80, mode, spacing)
+        );
+    }, [points, hiddenModes, layers, axisLimits, xDomain, xScale.type]);
+
+    // Fit of the model to the picks; recomputed on every layer edit, including mid-drag
+    const uncertainties = useMemo(() => resolveUncertainties(points, uncertaintySettings), [points, uncertaintySettings]);
+    const misfit = useMemo(() => computeMisfit(points, layers, uncertainties), [points, layers, uncertainties]);
+    const hoveredResidual = hoveredIndex !== null && misfit ? misfit.residuals[hoveredIndex] ?? NaN : NaN;
+
+    // Normalisation only depends on the data; the raster is redone on every axis or size change
+    const normalizedImage = useMemo(
+        () => dispersionImage ? normalizeImage(dispersionImage, imageDisplay.normalization) : null,
+        [dispersionImage, imageDisplay.normalization]
+    );
+
+    const imageTexture = useMemo(() => {
+        if (!dispersionImage || !normalizedImage || !imageDisplay.visible) return null;
+        const canvas = renderImageCanvas(dispersionImage, normalizedImage, xScale, yScale, imageDisplay.colormap, xDomain);
+        return Texture.from(canvas);
+    }, [dispersionImage, normalizedImage, imageDisplay.visible, imageDisplay.colormap, xScale, yScale, xDomain]);
+
+    useEffect(() => () => imageTexture?.destroy(true), [imageTexture]);
+
+    // Period band controlled by the layer hovered in RightPlot
+    const hoveredLayer = selection.hoveredLine?.layerIndex;
+    const layerBand = useMemo(() => {
+        if (hoveredLayer === undefined) return null;
+        const [periodMin, periodMax] = periodRange(axisLimits, xDomain);
+        return layerPeriodBand(layers, hoveredLayer, periodMin, periodMax);
+    }, [hoveredLayer, layers, axisLimits, xDomain]);
+
+    const drawLayerBand = useCallback((g: Graphics) => {
+        g.clear();
+        if (!layerBand) return;
+        const [a, b] = layerBand.map(screenXOf);
+        g.rect(Math.min(a, b), 0, Math.abs(b - a), plotDimensions.height);
+        g.fill({ color: 0x7C3AED, alpha: 0.15 });
+    }, [layerBand, screenXOf, plotDimensions]);
+
+    const drawModelCurve = useCallback((g: Graphics) => {
+        g.clear();
+
+        g.setStrokeStyle({
+            width: 2,
+            color: 0x0000FF,
+            alpha: 1
+        });
+        modelCurves.forEach(curve => {
+            if (curve.length < 2) return;
+            g.beginPath();
+            curve.forEach((point, index) => {
+                const screenX = screenXOf(point);
+                const screenY = yScale.toScreen(point.y);
+                if (index === 0) {
+                    g.moveTo(screenX, screenY);
+                } else {
+                    g.lineTo(screenX, screenY);
+                }
+            });
+            g.stroke();
+        });
+    }, [modelCurves, screenXOf, yScale]);
+
+    // Error bars per pick, or a band joining each mode's picks in period order
+    const drawUncertainty = useCallback((g: Graphics) => {
+        g.clear();
+        if (uncertaintySettings.display === 'none') return;
+
+        const shown = points
+            .map((point, index) => ({ point, sigma: uncertainties[index] }))
+            .filter(({ point, sigma }) => isVisible(point) && sigma > 0);
+
+        if (uncertaintySettings.display === 'bars') {
+            shown.forEach(({ point, sigma }) => {
+                const x = screenXOf(point);
+                const top = yScale.toScreen(point.y - sigma);
+                const bottom = yScale.toScreen(point.y + sigma);
+                g.moveTo(x, top);
+                g.lineTo(x, bottom);
+                g.moveTo(x - 3, top);
+                g.lineTo(x + 3, top);
+                g.moveTo(x - 3, bottom);
+                g.lineTo(x + 3, bottom);
+                g.stroke({ width: 1, color: modeStyle(pointMode(point)).color, alpha: 0.8 });
+            });
+            return;
+        }
+
+        modesOf(shown.map(({ point }) => point)).forEach(mode => {
+            const band = shown.filter(({ point }) => pointMode(point) === mode).sort((a, b) => screenXOf(a.point) - screenXOf(b.point));
+            if (band.length < 2) return;
+            const upper = band.flatMap(({ point, sigma }) => [screenXOf(point), yScale.toScreen(point.y + sigma)]);
+            const lower = band.reverse().flatMap(({ point, sigma }) => [screenXOf(point), yScale.toScreen(point.y - sigma)]);
+            g.poly([...upper, ...lower]);
+            g.fill({ color: modeStyle(mode).color, alpha: 0.2 });
+        });
+    }, [points, uncertainties, uncertaintySettings.display, isVisible, screenXOf, yScale]);
+
     const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (!file) return;
 
-        const text = await file.text();
-        const newPoints = text.split('\n')
-            .map(line => line.trim())
-            .filter(line => line.length > 0)
-            .map(line => {
-                const [y, x] = line.split(',').map(num => parseFloat(num.trim()));
-                return { x, y }; // x is period (second value), y is velocity (first value)
-            })
-            .filter(point => !isNaN(point.x) && !isNaN(point.y));
-
-        if (newPoints.length > 0) {
-            const xValues = newPoints.map(p => p.x);
-            const yValues = newPoints.map(p => p.y);
-
-            const xmin = Math.min(...xValues);
-            const xmax = Math.max(...xValues);
-            const ymin = Math.min(...yValues);
-            const ymax = Math.max(...yValues);
-
-            const xPadding = (xmax - xmin) * 0.1;
-            const yPadding = (ymax - ymin) * 0.1;
-
-            setAxisLimits({
-                xmin: xmin - xPadding,
-                xmax: xmax + xPadding,
-                ymin: ymin - yPadding,
-                ymax: ymax + yPadding
-            });
+        setPendingImport({ name: file.name, text: await file.text() });
+        // Allow re-selecting the same file after cancelling
+        event.target.value = '';
+    };
 
-            setPoints(newPoints);
+    const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length === 0) return;
+
+        try {
+            const image = await loadDispersionImage(files);
+            setImageError(null);
+            setRidgeSeed(null);
+            dispatch({ type: 'setDispersionImage', image });
+            dispatch({ type: 'recordView', plot: 'left' });
+            dispatch({ type: 'setLeftAxisLimits', limits: convertLimits(imageExtents(image), 'period', xDomain) });
+        } catch (error) {
+            setImageError(error instanceof Error ? error.message : String(error));
         }
     };
 
+    // Pick position under the cursor, pulled onto the spectral peak when snapping is on
+    const pickAt = (x: number, y: number): Point => {
+        const velocity = yScale.fromScreen(Math.max(0, Math.min(plotDimensions.height, y)));
+        const domainX = xScale.fromScreen(Math.max(0, Math.min(plotDimensions.width, x)));
+        const period = fromDomainX(xDomain, domainX, velocity);
+        if (!snapToPeak || !dispersionImage) return { x: period, y: velocity };
+
+        // In wavelength the period depends on the velocity, so it follows the snap to stay under the cursor
+        const snapped = snapToSpectralMaximum(dispersionImage, period, velocity);
+        return { x: fromDomainX(xDomain, domainX, snapped), y: snapped };
+    };
+
+    const findPickAt = (x: number, y: number): number | null => {
+        let nearest: number | null = null;
+        let nearestDistance = PICK_GRAB_DISTANCE;
+        points.forEach((point, index) => {
+            if (!isVisible(point)) return;
+            const distance = Math.hypot(screenXOf(point) - x, yScale.toScreen(point.y) - y);
+            if (distance <= nearestDistance) {
+                nearest = index;
+                nearestDistance = distance;
+            }
+        });
+        return nearest;
+    };
+
+    const localPosition = (event: React.MouseEvent) => {
+        const rect = event.currentTarget.getBoundingClientRect();
+        return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+
+    const handlePlotPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (viewport.handlePointerDown(event) || event.button !== 0) return;
+        const { x, y } = localPosition(event);
+
+        if (seedArmed) {
+            const velocity = yScale.fromScreen(y);
+            setRidgeSeed({ x: fromDomainX(xDomain, xScale.fromScreen(x), velocity), y: velocity });
+            setSeedArmed(false);
+            return;
+        }
+        if (!editPicks) return;
+
+        // Keep receiving moves and the release even if the cursor leaves the plot
+        event.currentTarget.setPointerCapture(event.pointerId);
+
+        if (event.shiftKey) {
+            setSelectionBox({ x0: x, y0: y, x1: x, y1: y });
+            return;
+        }
+
+        setSelectedPicks([]);
+        const index = findPickAt(x, y);
+        if (index !== null) {
+            setDraggedPick(index);
+        } else {
+            dispatch({ type: 'addPoint', point: { ...pickAt(x, y), mode: activeMode, source: 'manual' } });
+        }
+    };
+
+    const handlePlotPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (viewport.handlePointerMove(event)) return;
+        const { x, y } = localPosition(event);
+        if (draggedPick !== null) {
+            dispatch({ type: 'movePoint', index: draggedPick, point: { ...points[draggedPick], ...pickAt(x, y) } });
+        } else if (selectionBox) {
+            setSelectionBox({ ...selectionBox, x1: x, y1: y });
+        }
+    };
+
+    const handlePlotPointerUp = () => {
+        if (viewport.handlePointerUp()) return;
+        if (selectionBox) {
+            const left = Math.min(selectionBox.x0, selectionBox.x1);
+            const right = Math.max(selectionBox.x0, selectionBox.x1);
+            const top = Math.min(selectionBox.y0, selectionBox.y1);
+            const bottom = Math.max(selectionBox.y0, selectionBox.y1);
+            setSelectedPicks(points.flatMap((point, index) => {
+                if (!isVisible(point)) return [];
+                const x = screenXOf(point);
+                const y = yScale.toScreen(point.y);
+                return x >= left && x <= right && y >= top && y <= bottom ? [index] : [];
+            }));
+        }
+        setSelectionBox(null);
+        setDraggedPick(null);
+    };
+
+    const handlePlotContextMenu = (event: React.MouseEvent<HTMLDivElement>) => {
+        if (!editPicks) return;
+        event.preventDefault();
+
+        const { x, y } = localPosition(event);
+        const index = findPickAt(x, y);
+        if (index !== null) {
+            dispatch({ type: 'deletePoints', indices: [index] });
+            setSelectedPicks([]);
+        }
+    };
+
+    // Delete / Backspace removes the box selection, or else the hovered pick
+    useEffect(() => {
+        if (!editPicks) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key !== 'Delete' && event.key !== 'Backspace') return;
+            const target = event.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+            const indices = selectedPicks.length > 0 ? selectedPicks : hoveredIndex !== null ? [hoveredIndex] : [];
+            if (indices.length === 0) return;
+            event.preventDefault();
+            dispatch({ type: 'deletePoints', indices });
+            setSelectedPicks([]);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [editPicks, selectedPicks, hoveredIndex, dispatch]);
+
+    // Tracked picks replace the current ones and open them for editing
+    const handleAutoPicks = (newPoints: Point[]) => {
+        dispatch({ type: 'setPoints', points: newPoints.map(point => ({ ...point, mode: activeMode, source: 'auto-pick' })) });
+        setSelectedPicks([]);
+        setEditPicks(true);
+    };
+
+    const drawRidgeSeed = useCallback((g: Graphics) => {
+        g.clear();
+        if (!ridgeSeed) return;
+        const x = screenXOf(ridgeSeed);
+        const y = yScale.toScreen(ridgeSeed.y);
+        g.setStrokeStyle({ width: 2, color: 0xFFFFFF, alpha: 1 });
+        g.moveTo(x - 8, y);
+        g.lineTo(x + 8, y);
+        g.moveTo(x, y - 8);
+        g.lineTo(x, y + 8);
+        g.stroke();
+    }, [ridgeSeed, screenXOf, yScale]);
+
+    const handleImport = (importedPoints: Point[]) => {
+        const fileName = pendingImport?.name;
+        setPendingImport(null);
+        if (importedPoints.length === 0) return;
+
+        // Without a source column the file itself is the dataset
+        const newPoints = importedPoints.map(point => ({ ...point, source: point.source ?? fileName }));
+
+        const limits = dataLimits(newPoints.map(p => toDomainX(xDomain, p.x, p.y)), newPoints.map(p => p.y));
+        if (limits) {
+            dispatch({ type: 'recordView', plot: 'left' });
+            dispatch({ type: 'setLeftAxisLimits', limits });
+        }
+
+        dispatch({ type: 'setPoints', points: newPoints });
+        setSelectedPicks([]);
+    };
+
     const handleAxisLimitChange = (
         axis: "xmin" | "xmax" | "ymin" | "ymax",
         value: string
     ) => {
         const numValue = parseFloat(value);
         if (!isNaN(numValue)) {
-            setAxisLimits(prev => {
-                const newLimits = { ...prev, [axis]: numValue };
-                if (newLimits.xmin >= newLimits.xmax || newLimits.ymin >= newLimits.ymax) {
-                    return prev;
-                }
-                return newLimits;
-            });
+            const newLimits: AxisLimits = { ...axisLimits, [axis]: numValue };
+            if (newLimits.xmin >= newLimits.xmax || newLimits.ymin >= newLimits.ymax) {
+                return;
+            }
+            dispatch({ type: 'setLeftAxisLimits', limits: newLimits });
         }
     };
 
     return (
         <div className="flex flex-col items-center border-2 border-gray-300 rounded-lg p-4 shadow-sm">
             <div className="w-full">
+                <div className="flex justify-center gap-4 mb-4 text-sm text-gray-700">
+                    {misfit ? (
+                        <>
+                            <span>RMS: <span className="font-semibold">{misfit.rms.toFixed(2)}</span></span>
+                            <span>NRMS: <span className="font-semibold">{(misfit.normalizedRms * 100).toFixed(2)}%</span></span>
+                            {misfit.weightedRms !== null && (
+                                <span>Weighted RMS: <span className="font-semibold">{misfit.weightedRms.toFixed(2)}</span></span>
+                            )}
+                            <span className="text-gray-500">({misfit.count} points)</span>
+                        </>
+                    ) : (
+                        <span className="text-gray-500">Load picks and a layer model to compute misfit</span>
+                    )}
+                </div>
+
                 <div className="flex gap-4 flex-wrap justify-center mb-4">
                     <div className='flex flex-col'>
                         <div className="flex items-center justify-between">
@@ -103,6 +444,15 @@ export const LeftPlot = () => {
                                 step="1"
                             />
                         </div>
+                        <label className="flex items-center gap-1 text-sm text-gray-600">
+                            <input
+                                type="checkbox"
+                                checked={yScale.type === 'log'}
+                                disabled={!(axisLimits.ymin > 0)}
+                                onChange={(e) => dispatch({ type: 'setLeftAxisScales', scales: { y: e.target.checked ? 'log' : 'linear' } })}
+                            />
+                            Log velocity
+                        </label>
                     </div>
                     <div className='flex flex-col'>
                         <div className="flex items-center justify-between">
@@ -125,12 +475,45 @@ export const LeftPlot = () => {
                                 step="0.001"
                             />
                         </div>
+                        <label className="flex items-center gap-1 text-sm text-gray-600">
+                            <input
+                                type="checkbox"
+                                checked={xScale.type === 'log'}
+                                disabled={!(axisLimits.xmin > 0)}
+                                onChange={(e) => dispatch({ type: 'setLeftAxisScales', scales: { x: e.target.checked ? 'log' : 'linear' } })}
+                            />
+                            Log x
+                        </label>
+                    </div>
+                    <div className='flex flex-col gap-1 text-sm text-gray-600'>
+                        <label className="flex items-center justify-between gap-2">
+                            X axis:
+                            <select
+                                value={xDomain}
+                                onChange={(e) => dispatch({ type: 'setLeftXDomain', domain: e.target.value as XDomain })}
+                                className="px-1 py-0.5 border rounded"
+                            >
+                                {X_DOMAINS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between gap-2" title="Picks drawn on the layer plot at wavelength / n">
+                            Pseudo-depth:
+                            <select
+                                value={pseudoDepthDivisor ?? ''}
+                                onChange={(e) => dispatch({ type: 'setPseudoDepthDivisor', divisor: e.target.value ? Number(e.target.value) : null })}
+                                className="px-1 py-0.5 border rounded"
+                            >
+                                <option value="">Off</option>
+                                <option value="2">λ/2</option>
+                                <option value="3">λ/3</option>
+                            </select>
+                        </label>
                     </div>
                 </div>
 
                 <input
                     type="file"
-                    accept=".txt"
+                    accept=".txt,.csv,.tsv,.dat"
                     onChange={handleFileUpload}
                     className="block w-full text-sm text-gray-500 mb-4
                         file:mr-4 file:py-2 file:px-4
@@ -140,18 +523,158 @@ export const LeftPlot = () => {
                         hover:file:bg-blue-100"
                 />
 
-                <div className="relative border border-gray-200 rounded-lg bg-white shadow-sm w-full aspect-[4/3] min-h-[300px]" ref={plotRef}>
-                    {/* Y-axis labels (left side) */}
-                    <div className="absolute -left-8 top-0 h-full flex flex-col justify-between">
-                        <div className="text-xs">{axisLimits.ymax.toFixed(3)}</div>
-                        <div className="text-xs">{axisLimits.ymin.toFixed(3)}</div>
-                    </div>
+                <div className="flex gap-4 flex-wrap items-center mb-4 text-sm text-gray-700">
+                    <label className="flex items-center gap-2">
+                        Dispersion image (.npy image + axes):
+                        <input
+                            type="file"
+                            accept=".npy"
+                            multiple
+                            onChange={handleImageUpload}
+                            className="text-sm text-gray-500
+                                file:mr-2 file:py-1 file:px-3
+                                file:rounded-full file:border-0
+                                file:text-sm file:font-semibold
+                                file:bg-blue-50 file:text-blue-700
+                                hover:file:bg-blue-100"
+                        />
+                    </label>
+                    {dispersionImage && (
+                        <>
+                            <label className="flex items-center gap-1">
+                                <input
+                                    type="checkbox"
+                                    checked={imageDisplay.visible}
+                                    onChange={(e) => dispatch({ type: 'setImageDisplay', display: { visible: e.target.checked } })}
+                                />
+                                Show
+                            </label>
+                            <select
+                                value={imageDisplay.colormap}
+                                onChange={(e) => dispatch({ type: 'setImageDisplay', display: { colormap: e.target.value as Colormap } })}
+                                className="px-1 py-0.5 border rounded"
+                            >
+                                {COLORMAPS.map(colormap => <option key={colormap} value={colormap}>{colormap}</option>)}
+                            </select>
+                            <select
+                                value={imageDisplay.normalization}
+                                onChange={(e) => dispatch({ type: 'setImageDisplay', display: { normalization: e.target.value as ImageNormalization } })}
+                                className="px-1 py-0.5 border rounded"
+                            >
+                                {NORMALIZATIONS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                            </select>
+                            <button
+                                onClick={() => dispatch({ type: 'setDispersionImage', image: null })}
+                                className="px-3 py-0.5 text-sm font-semibold rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+                            >
+                                Remove
+                            </button>
+                        </>
+                    )}
+                </div>
+                {imageError && <div className="text-xs text-red-600 mb-4">{imageError}</div>}
 
-                    {/* X-axis labels (bottom) */}
-                    <div className="absolute -bottom-6 left-0 w-full flex justify-between">
-                        <div className="text-xs">{axisLimits.xmin.toFixed(3)}</div>
-                        <div className="text-xs">{axisLimits.xmax.toFixed(3)}</div>
-                    </div>
+                <div className="flex gap-4 flex-wrap items-center mb-4 text-sm text-gray-700">
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="checkbox"
+                            checked={editPicks}
+                            onChange={(e) => {
+                                setEditPicks(e.target.checked);
+                                setSelectedPicks([]);
+                            }}
+                        />
+                        Edit picks
+                    </label>
+                    <label className={`flex items-center gap-1 ${dispersionImage ? '' : 'text-gray-400'}`}>
+                        <input
+                            type="checkbox"
+                            checked={snapToPeak}
+                            disabled={!dispersionImage}
+                            onChange={(e) => setSnapToPeak(e.target.checked)}
+                        />
+                        Snap to spectral maximum
+                    </label>
+                    <label className="flex items-center gap-1">
+                        New pick mode:
+                        <input
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={activeMode}
+                            onChange={(e) => setActiveMode(Math.max(0, Math.round(parseFloat(e.target.value) || 0)))}
+                            className="w-14 px-1 border rounded"
+                        />
+                    </label>
+                    <button
+                        onClick={() => downloadText('picks.csv', formatPicksCsv(points), 'text/csv')}
+                        disabled={points.length === 0}
+                        className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                    >
+                        Export picks
+                    </button>
+                    {editPicks && (
+                        <span className="text-xs text-gray-500">
+                            Click to add, drag to move, right-click or Delete to remove, Shift+drag to select
+                        </span>
+                    )}
+                </div>
+
+                {dispersionImage && (
+                    <AutoPickPanel
+                        image={dispersionImage}
+                        seed={ridgeSeed}
+                        seedArmed={seedArmed}
+                        onArmSeed={() => setSeedArmed(!seedArmed)}
+                        onPicks={handleAutoPicks}
+                    />
+                )}
+
+                {pendingImport && (
+                    <PickImportDialog
+                        fileName={pendingImport.name}
+                        text={pendingImport.text}
+                        onImport={handleImport}
+                        onCancel={() => setPendingImport(null)}
+                    />
+                )}
+
+                <UncertaintyControls />
+
+                <ModeLegend
+                    points={points}
+                    hiddenModes={hiddenModes}
+                    onToggleMode={(mode) => {
+                        dispatch({
+                            type: 'setHiddenModes',
+                            modes: hiddenModes.includes(mode) ? hiddenModes.filter(m => m !== mode) : [...hiddenModes, mode]
+                        });
+                        setSelectedPicks([]);
+                    }}
+                />
+
+                <ViewportToolbar
+                    canGoBack={viewport.canGoBack}
+                    canGoForward={viewport.canGoForward}
+                    boxArmed={viewport.boxArmed}
+                    onBack={viewport.goBack}
+                    onForward={viewport.goForward}
+                    onReset={viewport.resetView}
+                    onToggleBox={() => viewport.setBoxArmed(!viewport.boxArmed)}
+                />
+
+                <div
+                    ref={plotRef}
+                    className={`relative border border-gray-200 rounded-lg bg-white shadow-sm ml-14 mb-10 w-[calc(100%-3.5rem)] aspect-[4/3] min-h-[300px] ${viewport.navigating ? 'cursor-move' : editPicks || seedArmed ? 'cursor-crosshair' : ''}`}
+                    onMouseDown={viewport.handleMouseDown}
+                    onPointerDown={handlePlotPointerDown}
+                    onPointerMove={handlePlotPointerMove}
+                    onPointerUp={handlePlotPointerUp}
+                    onContextMenu={handlePlotContextMenu}
+                    // Double-clicks while editing are two added picks, not a reset
+                    onDoubleClick={() => !editPicks && viewport.resetView()}
+                >
+                    <AxisLabels xScale={xScale} yScale={yScale} xTitle={xDomainTitle(xDomain)} yTitle="Phase velocity (m/s)" />
 
                     {plotRef.current && <Application
                         className="w-full h-full"
@@ -160,40 +683,78 @@ export const LeftPlot = () => {
                         background="white"
                     >
                         <pixiContainer>
-                            {points.map((point) => (
+                            {/* Dispersion image behind everything else */}
+                            {imageTexture && (
+                                <pixiSprite texture={imageTexture} width={plotDimensions.width} height={plotDimensions.height} />
+                            )}
+
+                            {/* Gridlines over the image so they stay visible */}
+                            <pixiGraphics draw={drawGrid} />
+
+                            {/* Band of the layer hovered on the model plot */}
+                            <pixiGraphics draw={drawLayerBand} />
+
+                            {/* Modeled dispersion curve */}
+                            <pixiGraphics draw={drawModelCurve} />
+
+                            {/* Pick uncertainties */}
+                            <pixiGraphics draw={drawUncertainty} />
+
+                            {/* Auto-pick seed */}
+                            <pixiGraphics draw={drawRidgeSeed} />
+
+                            {points.map((point, index) => isVisible(point) && (
                                 <pixiGraphics
                                     // key={index}
                                     draw={(g: Graphics) => {
                                         g.clear();
-                                        const screenX = ((point.x - axisLimits.xmin) / (axisLimits.xmax - axisLimits.xmin)) * plotDimensions.width;
-                                        const screenY = ((point.y - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin)) * plotDimensions.height;
+                                        const screenX = screenXOf(point);
+                                        const screenY = yScale.toScreen(point.y);
+                                        const { color, marker } = modeStyle(pointMode(point));
 
-                                        if (point === hoveredPoint) {
-                                            g.fill({ color: 0xFF0000 });
-                                            g.circle(screenX, screenY, 7);
-                                            g.fill({ color: 0xFF00FF, alpha: 0.8 });
+                                        if (selectedPicks.includes(index)) {
+                                            drawMarker(g, marker, screenX, screenY, 6);
+                                            g.fill({ color: 0xFF8C00 });
+                                        } else if (index === hoveredIndex) {
+                                            drawMarker(g, marker, screenX, screenY, 7);
+                                            g.fill({ color });
                                             g.circle(screenX, screenY, 3);
+                                            g.fill({ color: 0xFF00FF, alpha: 0.8 });
                                         } else {
-                                            g.fill({ color: 0xFF0000 });
-                                            g.circle(screenX, screenY, 5);
+                                            drawMarker(g, marker, screenX, screenY, 5);
+                                            g.fill({ color });
                                         }
-                                        g.fill();
                                     }}
                                     eventMode="static"
-                                    onpointerover={() => setHoveredPoint(point)}
-                                    onpointerout={() => setHoveredPoint(null)}
+                                    onpointerover={() => dispatch({ type: 'setHoveredPoint', index })}
+                                    onpointerout={() => dispatch({ type: 'setHoveredPoint', index: null })}
                                 />
                             ))}
                         </pixiContainer>
                     </Application>}
 
+                    {/* Box selection */}
+                    {selectionBox && (
+                        <div
+                            className="absolute border border-dashed border-blue-500 bg-blue-100/30 pointer-events-none"
+                            style={{
+                                left: Math.min(selectionBox.x0, selectionBox.x1),
+                                top: Math.min(selectionBox.y0, selectionBox.y1),
+                                width: Math.abs(selectionBox.x1 - selectionBox.x0),
+                                height: Math.abs(selectionBox.y1 - selectionBox.y0)
+                            }}
+                        />
+                    )}
+
+                    {viewport.zoomBox && <ZoomBoxOverlay box={viewport.zoomBox} />}
+
                     {/* Tooltip */}
                     {hoveredPoint && (
                         <div
                             className="absolute bg-white border border-black rounded px-1.5 py-0.5 text-xs shadow-sm pointer-events-none"
                             style={{
-                                left: ((hoveredPoint.x - axisLimits.xmin) / (axisLimits.xmax - axisLimits.xmin)) * plotDimensions.width + 2,
-                                top: ((hoveredPoint.y - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin)) * plotDimensions.height - 2,
+                                left: screenXOf(hoveredPoint) + 2,
+                                top: yScale.toScreen(hoveredPoint.y) - 2,
                                 zIndex: 1000
                             }}
                         >
@@ -201,14 +762,33 @@ export const LeftPlot = () => {
                                 <div
                                     className="w-3 h-3 border border-black"
                                     style={{
-                                        background: "rgb(255, 0, 0)"
+                                        background: cssColor(modeStyle(pointMode(hoveredPoint)).color)
                                     }}
                                 />
                                 {`(${hoveredPoint.y.toFixed(3)}, ${hoveredPoint.x.toFixed(3)})`}
                             </div>
+                            <div>{`${modeLabel(pointMode(hoveredPoint))} (mode ${pointMode(hoveredPoint)})`}</div>
+                            {hoveredIndex !== null && uncertainties[hoveredIndex] > 0 && (
+                                <div>{`Uncertainty: ±${uncertainties[hoveredIndex].toFixed(2)} m/s`}</div>
+                            )}
+                            {hoveredPoint.source && <div>{`Source: ${hoveredPoint.source}`}</div>}
+                            {!isNaN(hoveredResidual) && (
+                                <div>{`Residual: ${hoveredResidual >= 0 ? '+' : ''}${hoveredResidual.toFixed(3)}`}</div>
+                            )}
                         </div>
                     )}
                 </div>
+
+                {/* Residuals (observed - modeled) */}
+                {misfit && (
+                    <ResidualPlot
+                        points={points}
+                        residuals={misfit.residuals}
+                        xScale={xScale}
+                        domain={xDomain}
+                        width={plotDimensions.width}
+                    />
+                )}
             </div>
         </div>
     );
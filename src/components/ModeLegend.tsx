@@ -0,0 +1,44 @@
+import { Point } from '../types';
+import { MarkerShape, cssColor, modeLabel, modeStyle, modesOf, pointMode } from '../utils/modes';
+
+interface ModeLegendProps {
+    points: Point[];
+    hiddenModes: number[];
+    onToggleMode: (mode: number) => void;
+}
+
+// CSS stand-ins for the Pixi markers
+const MARKER_CLASSES: Record<MarkerShape, string> = {
+    circle: 'rounded-full',
+    square: '',
+    triangle: '[clip-path:polygon(50%_0,100%_100%,0_100%)]',
+    diamond: 'rotate-45 scale-75',
+};
+
+export const ModeLegend = ({ points, hiddenModes, onToggleMode }: ModeLegendProps) => {
+    const modes = modesOf(points);
+    if (modes.length === 0) return null;
+
+    return (
+        <div className="flex gap-4 flex-wrap justify-center mb-2 text-xs text-gray-700">
+            {modes.map(mode => {
+                const style = modeStyle(mode);
+                const count = points.filter(point => pointMode(point) === mode).length;
+                return (
+                    <label key={mode} className="flex items-center gap-1 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={!hiddenModes.includes(mode)}
+                            onChange={() => onToggleMode(mode)}
+                        />
+                        <span
+                            className={`inline-block w-3 h-3 ${MARKER_CLASSES[style.marker]}`}
+                            style={{ background: cssColor(style.color) }}
+                        />
+                        {`${modeLabel(mode)} (${count})`}
+                    </label>
+                );
+            })}
+        </div>
+    );
+};
@@ -0,0 +1,111 @@
+import { useMemo, useState } from 'react';
+import { Point } from '../types';
+import {
+    COLUMN_ROLES,
+    ColumnRole,
+    DELIMITERS,
+    Delimiter,
+    PickImportOptions,
+    parsePicks,
+} from '../utils/pickImport';
+
+interface PickImportDialogProps {
+    fileName: string;
+    text: string;
+    onImport: (points: Point[]) => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+const MAX_REJECTED_SHOWN = 20;
+
+export const PickImportDialog = ({ fileName, text, onImport, onCancel }: PickImportDialogProps) => {
+    const [options, setOptions] = useState<PickImportOptions>({});
+    const result = useMemo(() => parsePicks(text, options), [text, options]);
+
+    const handleColumnChange = (index: number, role: ColumnRole) => {
+        const columns = Array.from({ length: result.columnCount }, (_, i) => result.columns[i] ?? 'ignore');
+        columns[index] = role;
+        setOptions({ ...options, columns });
+    };
+
+    return (
+        <div className="w-full border border-blue-200 rounded-lg bg-blue-50 p-3 mb-4 text-sm text-gray-700">
+            <div className="font-semibold mb-2">{`Import ${fileName}`}</div>
+
+            <div className="flex gap-4 flex-wrap items-center mb-2">
+                <label className="flex items-center gap-2">
+                    Delimiter:
+                    <select
+                        value={result.delimiter}
+                        onChange={(e) => setOptions({ delimiter: e.target.value as Delimiter })}
+                        className="px-1 py-0.5 border rounded"
+                    >
+                        {DELIMITERS.map(delimiter => <option key={delimiter} value={delimiter}>{delimiter}</option>)}
+                    </select>
+                </label>
+                <span>{`${result.points.length} points, ${result.rejected.length} rejected, ${result.skipped} skipped`}</span>
+            </div>
+
+            <div className="overflow-x-auto mb-2">
+                <table className="text-xs bg-white border">
+                    <thead>
+                        <tr>
+                            {Array.from({ length: result.columnCount }, (_, i) => (
+                                <th key={i} className="px-1 py-0.5 border">
+                                    <div className="font-normal text-gray-500">{result.header?.[i] ?? `Column ${i + 1}`}</div>
+                                    <select
+                                        value={result.columns[i] ?? 'ignore'}
+                                        onChange={(e) => handleColumnChange(i, e.target.value as ColumnRole)}
+                                        className="px-1 border rounded"
+                                    >
+                                        {COLUMN_ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                                    </select>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {result.points.slice(0, PREVIEW_ROWS).map((point, i) => (
+                            <tr key={i}>
+                                <td colSpan={result.columnCount} className="px-1 border">
+                                    {`period ${point.x.toFixed(4)} s, velocity ${point.y.toFixed(2)}`
+                                        + (point.uncertainty !== undefined ? `, ±${point.uncertainty}` : '')
+                                        + (point.mode !== undefined ? `, mode ${point.mode}` : '')
+                                        + (point.source !== undefined ? `, ${point.source}` : '')}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {result.rejected.length > 0 && (
+                <div className="max-h-32 overflow-y-auto mb-2 text-xs text-red-700">
+                    {result.rejected.slice(0, MAX_REJECTED_SHOWN).map(line => (
+                        <div key={line.lineNumber}>{`Line ${line.lineNumber}: ${line.reason} — "${line.text}"`}</div>
+                    ))}
+                    {result.rejected.length > MAX_REJECTED_SHOWN && (
+                        <div>{`...and ${result.rejected.length - MAX_REJECTED_SHOWN} more`}</div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex gap-2 justify-end">
+                <button
+                    onClick={onCancel}
+                    className="px-4 py-1 text-sm font-semibold rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200"
+                >
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onImport(result.points)}
+                    disabled={result.points.length === 0}
+                    className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-100 text-blue-700 hover:bg-blue-200 disabled:opacity-50"
+                >
+                    {`Import ${result.points.length} points`}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { useAppDispatch, useAppState } from '../store/context';
+import { formatProject, parseProject } from '../utils/project';
+import { downloadText } from '../utils/download';
+
+/** Save the whole workspace to a project file, or replace it with one. The workspace also autosaves in the browser. */
+export const ProjectPanel = () => {
+    const state = useAppState();
+    const dispatch = useAppDispatch();
+    const [error, setError] = useState<string | null>(null);
+
+    const handleOpen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        try {
+            dispatch({ type: 'loadWorkspace', workspace: parseProject(await file.text()) });
+            setError(null);
+        } catch (openError) {
+            setError(`${file.name}: ${openError instanceof Error ? openError.message : String(openError)}`);
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-center gap-1 mb-6 text-sm text-gray-700">
+            <div className="flex gap-2 items-center">
+                <button
+                    onClick={() => downloadText('project.json', formatProject(state), 'application/json')}
+                    className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100"
+                >
+                    Save project
+                </button>
+                <label className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 cursor-pointer">
+                    Open project
+                    <input type="file" accept=".json" onChange={handleOpen} className="hidden" />
+                </label>
+                <span className="text-xs text-gray-500">Changes are saved in this browser automatically</span>
+            </div>
+            {error && <div className="text-xs text-red-600">{error}</div>}
+        </div>
+    );
+};
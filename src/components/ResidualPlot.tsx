@@ -0,0 +1,81 @@
+import { Application, extend } from '@pixi/react';
+import { Graphics, Container } from 'pixi.js';
+import { useCallback, useMemo } from 'react';
+import { Point } from '../types';
+import { Scale } from '../utils/scale';
+import { XDomain, toDomainX } from '../utils/xDomain';
+
+extend({ Graphics, Container });
+
+interface ResidualPlotProps {
+    points: Point[];
+    residuals: number[];
+    xScale: Scale;      // shared with the plot above so the periods line up
+    domain: XDomain;
+    width: number;
+    height?: number;
+}
+
+export const ResidualPlot = ({ points, residuals, xScale, domain, width, height = 120 }: ResidualPlotProps) => {
+    // Symmetric range around zero so over- and under-prediction read the same
+    const range = useMemo(() => {
+        const finite = residuals.filter(r => !isNaN(r)).map(Math.abs);
+        const max = finite.length > 0 ? Math.max(...finite) : 0;
+        return max > 0 ? max * 1.1 : 1;
+    }, [residuals]);
+
+    const toScreenY = useCallback((value: number) => height / 2 - (value / range) * (height / 2), [range, height]);
+
+    const drawResiduals = useCallback((g: Graphics) => {
+        g.clear();
+
+        // Zero line
+        g.setStrokeStyle({ width: 1, color: 0x808080, alpha: 1 });
+        g.beginPath();
+        g.moveTo(0, toScreenY(0));
+        g.lineTo(width, toScreenY(0));
+        g.stroke();
+
+        // Stems
+        g.setStrokeStyle({ width: 1, color: 0xFF0000, alpha: 0.6 });
+        g.beginPath();
+        points.forEach((point, index) => {
+            const residual = residuals[index];
+            if (isNaN(residual)) return;
+            const x = xScale.toScreen(toDomainX(domain, point.x, point.y));
+            g.moveTo(x, toScreenY(0));
+            g.lineTo(x, toScreenY(residual));
+        });
+        g.stroke();
+
+        // Markers
+        points.forEach((point, index) => {
+            const residual = residuals[index];
+            if (isNaN(residual)) return;
+            g.circle(xScale.toScreen(toDomainX(domain, point.x, point.y)), toScreenY(residual), 3);
+        });
+        g.fill({ color: 0xFF0000 });
+    }, [points, residuals, xScale, domain, toScreenY, width]);
+
+    return (
+        <div className="relative border border-gray-200 rounded-lg bg-white shadow-sm ml-14 w-[calc(100%-3.5rem)]" style={{ height }}>
+            {/* Y-axis labels (left side) */}
+            <div className="absolute -left-8 top-0 h-full flex flex-col justify-between">
+                <div className="text-xs">{`+${range.toFixed(1)}`}</div>
+                <div className="text-xs">0</div>
+                <div className="text-xs">{`-${range.toFixed(1)}`}</div>
+            </div>
+
+            <Application
+                className="w-full h-full"
+                width={width}
+                height={height}
+                background="white"
+            >
+                <pixiContainer>
+                    <pixiGraphics draw={drawResiduals} />
+                </pixiContainer>
+            </Application>
+        </div>
+    );
+};
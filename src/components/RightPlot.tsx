@@ -3,45 +3,65 @@ import {
     Sprite,
     Graphics,
     Text,
+    FederatedPointerEvent,
 } from "pixi.js";
 import { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Application, extend } from "@pixi/react";
+import { AxisLimits, DragState, HoveredLine, Layer } from "../types";
+import { useAppDispatch, useAppState } from "../store/context";
+import { formatModelCsv, formatModelFile, formatModelJson, parseModelFile } from "../utils/modelFile";
+import { downloadText } from "../utils/download";
+import { createScale, drawGridlines } from "../utils/scale";
+import { AxisLabels } from "./AxisLabels";
+import { ViewportToolbar, ZoomBoxOverlay } from "./ViewportControls";
+import { usePlotViewport } from "../hooks/usePlotViewport";
+import { layerLimits } from "../utils/viewport";
+import { periodRange, pseudoDepthProfile } from "../utils/xDomain";
+import { insensitiveLayers, pickDepthBand } from "../utils/sensitivity";
+import { SensitivityPanel } from "./SensitivityPanel";
+import { useSensitivityKernels } from "../hooks/useSensitivityKernels";
+import { drawPolyline, modelEnvelope, overlayStyle, stepProfile, velocityDifference } from "../utils/modelComparison";
+import { ComparisonPanel, ModelKey } from "./ComparisonPanel";
+import { boundaryRange, findViolations, snapWithin, velocityRange } from "../utils/constraints";
+import { DifferencePanel } from "./DifferencePanel";
+import {
+    splitLayer,
+    mergeWithBelow,
+    deleteBoundary,
+    deleteLayer,
+    insertHalfSpace,
+    duplicateLayer,
+} from "../utils/layerOperations";
 extend({ Container, Sprite, Graphics, Text });
 
-interface Layer {
-    startDepth: number;
-    endDepth: number;
-    velocity: number;
-}
+const SENSITIVITY_PANEL_WIDTH = 96;
+const DIFFERENCE_PANEL_WIDTH = 120;
 
-// Add new hover state types
-interface HoveredLine {
-    type: 'depth' | 'velocity';
-    value: number;
-    y?: number;
-    x?: number;
-}
+const formatPeriod = (period: number) => Number(period.toPrecision(2)).toString();
 
-interface DragState {
-    layerIndex: number;
-    type: 'boundary' | 'velocity';
-    isDragging: boolean;
+interface ContextMenuState {
+    x: number;
+    y: number;
+    layerIndex: number | null;     // layer under the cursor
+    boundaryIndex: number | null;  // boundary under the cursor, same numbering as DragState
 }
 
 export const RightPlot = () => {
-    const [layers, setLayers] = useState<Layer[]>([]);
-    const [hoveredLine, setHoveredLine] = useState<HoveredLine | null>(null);
-    const [dragState, setDragState] = useState<DragState | null>(null);
-    const [axisLimits, setAxisLimits] = useState({
-        xmin: 50,
-        xmax: 1000,
-        ymin: 0.0,
-        ymax: 200.0,
-    });
+    const { layers, rightAxisLimits: axisLimits, rightAxisScales, selection, modelFile, points, pseudoDepthDivisor, leftAxisLimits, leftXDomain, comparisonModels, constraints } = useAppState();
+    const { hoveredLine, dragState, hoveredPointIndex } = selection;
+    const dispatch = useAppDispatch();
     const [plotDimensions, setPlotDimensions] = useState({ width: 640, height: 480 });
+    const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+    const [difference, setDifference] = useState<[ModelKey, ModelKey] | null>(null);
+    const [showEnvelope, setShowEnvelope] = useState(false);
     const plotRef = useRef<HTMLDivElement>(null);
 
-    // Update dimensions when component mounts or window resizes
+    const setLayers = (newLayers: Layer[], label?: string) => dispatch({ type: 'setLayers', layers: newLayers, label });
+    const setHoveredLine = (line: HoveredLine | null) => dispatch({ type: 'setHoveredLine', line });
+    const setDragState = (newDragState: DragState | null) => dispatch({ type: 'setDragState', dragState: newDragState });
+    const setAxisLimits = (limits: AxisLimits) => dispatch({ type: 'setRightAxisLimits', limits });
+
+    // Update dimensions when the plot area resizes, from the window or from panels beside it appearing
     useEffect(() => {
         const updateDimensions = () => {
             if (plotRef.current) {
@@ -52,17 +72,144 @@ export const RightPlot = () => {
         };
 
         updateDimensions();
-        window.addEventListener('resize', updateDimensions);
-        return () => window.removeEventListener('resize', updateDimensions);
+        const observer = new ResizeObserver(updateDimensions);
+        if (plotRef.current) observer.observe(plotRef.current);
+        return () => observer.disconnect();
     }, []);
 
-    // Update coordinate helpers to use dynamic dimensions
+    // Velocity across, depth increasing downwards
+    const xScale = useMemo(
+        () => createScale(rightAxisScales.x, axisLimits.xmin, axisLimits.xmax, 0, plotDimensions.width),
+        [rightAxisScales.x, axisLimits.xmin, axisLimits.xmax, plotDimensions.width]
+    );
+    const yScale = useMemo(
+        () => createScale(rightAxisScales.y, axisLimits.ymin, axisLimits.ymax, 0, plotDimensions.height),
+        [rightAxisScales.y, axisLimits.ymin, axisLimits.ymax, plotDimensions.height]
+    );
+
+    const viewport = usePlotViewport({ plot: 'right', plotRef, xScale, yScale, fitLimits: () => layerLimits(layers) });
+
     const coordinateHelpers = useMemo(() => ({
-        toScreenX: (value: number) => ((value - axisLimits.xmin) / (axisLimits.xmax - axisLimits.xmin)) * plotDimensions.width,
-        toScreenY: (value: number) => ((value - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin)) * plotDimensions.height,
-        fromScreenX: (x: number) => axisLimits.xmin + (x / plotDimensions.width) * (axisLimits.xmax - axisLimits.xmin),
-        fromScreenY: (y: number) => axisLimits.ymin + (y / plotDimensions.height) * (axisLimits.ymax - axisLimits.ymin)
-    }), [axisLimits, plotDimensions]);
+        toScreenX: xScale.toScreen,
+        toScreenY: yScale.toScreen,
+        fromScreenX: xScale.fromScreen,
+        fromScreenY: yScale.fromScreen
+    }), [xScale, yScale]);
+
+    const drawGrid = useCallback((g: Graphics) => {
+        g.clear();
+        drawGridlines(g, xScale, yScale);
+    }, [xScale, yScale]);
+
+    // Picks at wavelength / n, to compare the data's depth reach with the model
+    const drawPseudoDepth = useCallback((g: Graphics) => {
+        g.clear();
+        if (pseudoDepthDivisor === null) return;
+
+        pseudoDepthProfile(points, pseudoDepthDivisor).forEach(({ velocity, depth }) => {
+            g.circle(coordinateHelpers.toScreenX(velocity), coordinateHelpers.toScreenY(depth), 3);
+        });
+        g.fill({ color: 0x808080, alpha: 0.7 });
+    }, [points, pseudoDepthDivisor, coordinateHelpers]);
+
+    // Depth range sampled by the pick hovered in LeftPlot
+    const hoveredPick = hoveredPointIndex !== null ? points[hoveredPointIndex] ?? null : null;
+    const pickBand = useMemo(() => hoveredPick ? pickDepthBand(layers, hoveredPick) : null, [hoveredPick, layers]);
+
+    const drawPickBand = useCallback((g: Graphics) => {
+        g.clear();
+        if (!pickBand) return;
+        const top = coordinateHelpers.toScreenY(pickBand[0]);
+        const bottom = coordinateHelpers.toScreenY(pickBand[1]);
+        g.rect(0, top, plotDimensions.width, bottom - top);
+        g.fill({ color: 0x7C3AED, alpha: 0.15 });
+    }, [pickBand, coordinateHelpers, plotDimensions]);
+
+    // Kernels over the picked periods, or the left plot's view when there are no picks
+    const [kernelPeriodMin, kernelPeriodMax] = useMemo(() => {
+        const periods = points.map(point => point.x).filter(period => period > 0);
+        return periods.length > 1
+            ? [Math.min(...periods), Math.max(...periods)]
+            : periodRange(leftAxisLimits, leftXDomain);
+    }, [points, leftAxisLimits, leftXDomain]);
+    const sensitivity = useSensitivityKernels(layers, kernelPeriodMin, kernelPeriodMax);
+    const flaggedLayers = useMemo(() => insensitiveLayers(sensitivity.layers, sensitivity.kernels), [sensitivity]);
+
+    // Layers the data can hardly resolve, greyed out behind the model
+    const drawInsensitive = useCallback((g: Graphics) => {
+        g.clear();
+        flaggedLayers.forEach(index => {
+            const layer = sensitivity.layers[index];
+            const top = coordinateHelpers.toScreenY(layer.startDepth);
+            const bottom = coordinateHelpers.toScreenY(layer.endDepth);
+            g.rect(0, top, plotDimensions.width, bottom - top);
+        });
+        g.fill({ color: 0x9CA3AF, alpha: 0.2 });
+    }, [flaggedLayers, sensitivity, coordinateHelpers, plotDimensions]);
+
+    // Layers breaking the constraints, e.g. as loaded from a file, tinted red
+    const violations = useMemo(() => findViolations(layers, constraints), [layers, constraints]);
+
+    const drawViolations = useCallback((g: Graphics) => {
+        g.clear();
+        new Set(violations.map(violation => violation.layerIndex)).forEach(index => {
+            const layer = layers[index];
+            const top = coordinateHelpers.toScreenY(layer.startDepth);
+            const bottom = coordinateHelpers.toScreenY(layer.endDepth);
+            g.rect(0, top, plotDimensions.width, bottom - top);
+        });
+        g.fill({ color: 0xEF4444, alpha: 0.15 });
+    }, [violations, layers, coordinateHelpers, plotDimensions]);
+
+    // Read-only models for comparison, in their legend styles under the editable one
+    const drawComparisons = useCallback((g: Graphics) => {
+        g.clear();
+        comparisonModels.forEach((model, index) => {
+            if (!model.visible) return;
+            const style = overlayStyle(index);
+            const profile = stepProfile(model.layers).map(({ velocity, depth }) => ({
+                x: coordinateHelpers.toScreenX(velocity),
+                y: coordinateHelpers.toScreenY(depth),
+            }));
+            drawPolyline(g, profile, style.dash);
+            g.stroke({ width: 2, color: style.color, alpha: 0.9 });
+        });
+    }, [comparisonModels, coordinateHelpers]);
+
+    const envelope = useMemo(
+        () => showEnvelope ? modelEnvelope(comparisonModels.filter(model => model.visible).map(model => model.layers)) : [],
+        [showEnvelope, comparisonModels]
+    );
+
+    const drawEnvelope = useCallback((g: Graphics) => {
+        g.clear();
+        if (envelope.length === 0) return;
+
+        envelope.forEach(({ top, bottom, low, high }) => {
+            const x0 = coordinateHelpers.toScreenX(low);
+            const y0 = coordinateHelpers.toScreenY(top);
+            g.rect(x0, y0, coordinateHelpers.toScreenX(high) - x0, coordinateHelpers.toScreenY(bottom) - y0);
+        });
+        g.fill({ color: 0x6B7280, alpha: 0.2 });
+
+        const median = envelope.flatMap(({ top, bottom, median }) => [
+            { x: coordinateHelpers.toScreenX(median), y: coordinateHelpers.toScreenY(top) },
+            { x: coordinateHelpers.toScreenX(median), y: coordinateHelpers.toScreenY(bottom) },
+        ]);
+        drawPolyline(g, median, null);
+        g.stroke({ width: 2, color: 0x374151, alpha: 0.9 });
+    }, [envelope, coordinateHelpers]);
+
+    // A removed comparison model drops the difference rather than leaving a stale one
+    const modelLayers = useCallback(
+        (key: ModelKey): Layer[] | null => key === 'active' ? layers : comparisonModels.find(model => model.id === key)?.layers ?? null,
+        [layers, comparisonModels]
+    );
+    const differenceIntervals = useMemo(() => {
+        if (!difference) return null;
+        const [a, b] = difference.map(modelLayers);
+        return a && b ? velocityDifference(a, b) : null;
+    }, [difference, modelLayers]);
 
     // Update drawing functions to use dynamic dimensions
     const drawAllLines = useCallback((g: Graphics) => {
@@ -119,86 +266,50 @@ export const RightPlot = () => {
             const reader = new FileReader();
             reader.onload = (e: ProgressEvent<FileReader>) => {
                 const text = e.target?.result as string;
-                const lines = text.split("\n");
-                const data = lines
-                    .map((line: string) => {
-                        const [depth, density, ignore, velocity] = line.trim().split(" ").map(Number);
-                        return { depth, density, ignore, velocity };
-                    })
-                    .filter((item) => !isNaN(item.depth) && !isNaN(item.velocity));
-
-                console.log("Parsed data:", data); // Debug log
-
-                if (data.length > 0) {
-                    // Create layers from consecutive points
-                    const newLayers: Layer[] = [];
-                    for (let i = 0; i < data.length - 1; i+=2) {
-                        newLayers.push({
-                            startDepth: data[i].depth,
-                            endDepth: data[i + 1].depth,
-                            velocity: data[i].velocity
-                        });
-                    }
-                    console.log("Created layers:", newLayers); // Debug log
-
-                    // Update axis limits based on data
-                    const depthValues = data.map(d => d.depth);
-                    const velocityValues = data.map(d => d.velocity);
-                    
-                    const newAxisLimits = {
-                        xmin: Math.min(...velocityValues) * 0.9,
-                        xmax: Math.max(...velocityValues) * 1.1,
-                        ymin: Math.min(...depthValues) * 0.9,
-                        ymax: Math.max(...depthValues) * 1.1
-                    };
-                    console.log("New axis limits:", newAxisLimits); // Debug log
-
-                    setLayers(newLayers);
+                const { layers: newLayers, info } = parseModelFile(text, file.name);
+
+                const newAxisLimits = layerLimits(newLayers);
+                if (newAxisLimits) {
+                    setLayers(newLayers, `Load ${file.name}`);
+                    dispatch({ type: 'recordView', plot: 'right' });
                     setAxisLimits(newAxisLimits);
+                    dispatch({ type: 'setModelFile', info });
                 }
             };
             reader.readAsText(file);
         }
     };
 
-    const handlePointerDown = (event: React.PointerEvent, layerIndex: number, type: 'boundary' | 'velocity') => {
+    const exportBaseName = (modelFile?.name ?? 'model.txt').replace(/\.[^.]*$/, '');
+
+    const handleSaveModel = () => {
+        downloadText(modelFile?.name ?? 'model.txt', formatModelFile(layers, modelFile));
+    };
+
+    const handlePointerDown = (event: FederatedPointerEvent, layerIndex: number, type: 'boundary' | 'velocity') => {
         event.stopPropagation();
+
+        // Right button opens the context menu instead of dragging
+        if (event.button !== 0) {
+            return;
+        }
+
+        // Space-drag, box zoom and Ctrl-drag belong to the viewport, not the handles
+        if (viewport.navigating || event.ctrlKey) {
+            return;
+        }
         
-        // Handle shift+click to add new layer
-        if (event.shiftKey && type === 'velocity') {
-            const rect = event.currentTarget.getBoundingClientRect();
-            const y = event.clientY - rect.top;
-            const newDepth = axisLimits.ymin + (y / plotDimensions.height) * (axisLimits.ymax - axisLimits.ymin);
-            
-            // Only add new layer if click is within the layer's bounds
-            const layer = layers[layerIndex];
-            if (newDepth > layer.startDepth && newDepth < layer.endDepth) {
-                const newLayers = [...layers];
-                
-                // Split the current layer into two
-                const upperLayer: Layer = {
-                    startDepth: layer.startDepth,
-                    endDepth: newDepth,
-                    velocity: layer.velocity
-                };
-                
-                const lowerLayer: Layer = {
-                    startDepth: newDepth,
-                    endDepth: layer.endDepth,
-                    velocity: layer.velocity
-                };
-                
-                // Replace the current layer with the two new layers
-                newLayers.splice(layerIndex, 1, upperLayer, lowerLayer);
-                setLayers(newLayers);
-                return;
-            }
+        // Shift+click splits a layer; handlePlotClick on the plot div handles it
+        if (event.shiftKey) {
+            return;
         }
         
         setDragState({ layerIndex, type, isDragging: true });
     };
 
-    const handlePointerMove = (event: React.PointerEvent) => {
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (viewport.handlePointerMove(event)) return;
+
         const rect = event.currentTarget.getBoundingClientRect();
         const x = event.clientX - rect.left;
         const y = event.clientY - rect.top;
@@ -210,8 +321,8 @@ export const RightPlot = () => {
             // Check black lines (boundaries)
             layers.forEach((layer, index) => {
                 const startY = index === 0 ? 
-                    (layer.startDepth - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin) * plotDimensions.height :
-                    (layer.endDepth - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin) * plotDimensions.height;
+                    coordinateHelpers.toScreenY(layer.startDepth) :
+                    coordinateHelpers.toScreenY(layer.endDepth);
                 
                 if (Math.abs(y - startY) < 10) {
                     setHoveredLine({
@@ -226,17 +337,18 @@ export const RightPlot = () => {
 
             // Check red lines (velocities)
             if (!found) {
-                layers.forEach((layer) => {
-                    const lineX = ((layer.velocity - axisLimits.xmin) / (axisLimits.xmax - axisLimits.xmin)) * plotDimensions.width;
-                    const startY = (layer.startDepth - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin) * plotDimensions.height;
-                    const endY = (layer.endDepth - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin) * plotDimensions.height;
+                layers.forEach((layer, index) => {
+                    const lineX = coordinateHelpers.toScreenX(layer.velocity);
+                    const startY = coordinateHelpers.toScreenY(layer.startDepth);
+                    const endY = coordinateHelpers.toScreenY(layer.endDepth);
 
                     if (Math.abs(x - lineX) < 10 && y >= startY && y <= endY) {
                         setHoveredLine({
                             type: 'velocity',
                             value: layer.velocity,
                             y,
-                            x: lineX
+                            x: lineX,
+                            layerIndex: index
                         });
                         found = true;
                     }
@@ -252,13 +364,16 @@ export const RightPlot = () => {
         const newLayers = [...layers];
 
         if (dragState.type === 'velocity') {
-            // Handle velocity drag (red line)
-            const newVelocity = axisLimits.xmin + (x / plotDimensions.width) * (axisLimits.xmax - axisLimits.xmin);
-            const constrainedVelocity = Math.max(
-                axisLimits.xmin, 
-                Math.min(axisLimits.xmax, newVelocity)
+            // Handle velocity drag (red line), kept on screen and within the constraints
+            const newVelocity = coordinateHelpers.fromScreenX(x);
+            const [minVelocity, maxVelocity] = velocityRange(layers, dragState.layerIndex, constraints);
+            const constrainedVelocity = snapWithin(
+                newVelocity,
+                [Math.max(axisLimits.xmin, minVelocity), Math.min(axisLimits.xmax, maxVelocity)],
+                constraints.velocityStep,
+                layers[dragState.layerIndex].velocity
             );
-            newLayers[dragState.layerIndex].velocity = constrainedVelocity;
+            newLayers[dragState.layerIndex] = { ...newLayers[dragState.layerIndex], velocity: constrainedVelocity };
             setLayers(newLayers);
 
             // Update tooltip for velocity
@@ -266,117 +381,169 @@ export const RightPlot = () => {
                 type: 'velocity',
                 value: constrainedVelocity,
                 y,
-                x: ((constrainedVelocity - axisLimits.xmin) / (axisLimits.xmax - axisLimits.xmin)) * plotDimensions.width
+                x: coordinateHelpers.toScreenX(constrainedVelocity),
+                layerIndex: dragState.layerIndex
             });
         } else {
-            // Handle boundary drag (black line)
-            const newDepth = axisLimits.ymin + (y / plotDimensions.height) * (axisLimits.ymax - axisLimits.ymin);
-
-            if (dragState.layerIndex === 0) {
-                // First layer's start depth
-                const maxDepth = layers[0].endDepth;
-                const constrainedDepth = Math.min(maxDepth - 0.1, newDepth);
-                newLayers[0].startDepth = constrainedDepth;
-                setLayers(newLayers);
-                // Update tooltip for depth
-                setHoveredLine({
-                    type: 'depth',
-                    value: constrainedDepth,
-                    y: (constrainedDepth - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin) * plotDimensions.height,
-                    x
-                });
-            } else if (dragState.layerIndex === layers.length) {
-                // Last layer's end depth
-                const lastLayer = layers[layers.length - 1];
-                const minDepth = lastLayer.startDepth;
-                const constrainedDepth = Math.max(minDepth + 0.1, newDepth);
-                newLayers[layers.length - 1].endDepth = constrainedDepth;
-                setLayers(newLayers);
-                // Update tooltip for depth
-                setHoveredLine({
-                    type: 'depth',
-                    value: constrainedDepth,
-                    y: (constrainedDepth - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin) * plotDimensions.height,
-                    x
-                });
-            } else {
-                // Middle boundaries
+            // Handle boundary drag (black line); the layers either side keep within the thickness limits
+            const newDepth = coordinateHelpers.fromScreenY(y);
+            const constrainedDepth = snapWithin(
+                newDepth,
+                boundaryRange(layers, dragState.layerIndex, constraints),
+                constraints.depthStep,
+                dragState.layerIndex < layers.length ? layers[dragState.layerIndex].startDepth : layers[layers.length - 1].endDepth
+            );
+
+            // Update both layers that share this boundary
+            if (dragState.layerIndex > 0) {
                 const prevLayer = layers[dragState.layerIndex - 1];
+                newLayers[dragState.layerIndex - 1] = { ...prevLayer, endDepth: constrainedDepth };
+            }
+            if (dragState.layerIndex < layers.length) {
                 const nextLayer = layers[dragState.layerIndex];
+                newLayers[dragState.layerIndex] = { ...nextLayer, startDepth: constrainedDepth };
+            }
+            setLayers(newLayers);
 
-                // Get constraints from adjacent layers
-                const minDepth = prevLayer ? prevLayer.startDepth + 0.1 : -Infinity;
-                const maxDepth = nextLayer ? nextLayer.endDepth - 0.1 : Infinity;
-
-                // Constrain the movement
-                const constrainedDepth = Math.max(minDepth, Math.min(maxDepth, newDepth));
+            // Update tooltip for depth
+            setHoveredLine({
+                type: 'depth',
+                value: constrainedDepth,
+                y: coordinateHelpers.toScreenY(constrainedDepth),
+                x
+            });
+        }
+    };
 
-                // Update both layers that share this boundary
-                if (dragState.layerIndex > 0) {
-                    newLayers[dragState.layerIndex - 1].endDepth = constrainedDepth;
-                }
-                newLayers[dragState.layerIndex].startDepth = constrainedDepth;
-                
-                setLayers(newLayers);
-
-                // Update tooltip for depth
-                setHoveredLine({
-                    type: 'depth',
-                    value: constrainedDepth,
-                    y: (constrainedDepth - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin) * plotDimensions.height,
-                    x
-                });
-            }
+    // Boundary within grab distance of a screen y, numbered 0 (top) to layers.length (bottom)
+    const findBoundaryAt = (y: number): number | null => {
+        for (let i = 0; i <= layers.length; i++) {
+            const depth = i < layers.length ? layers[i].startDepth : layers[layers.length - 1].endDepth;
+            if (Math.abs(y - coordinateHelpers.toScreenY(depth)) < 10) return i;
         }
+        return null;
     };
 
-    const handlePointerUp = () => {
-        setDragState(null);
+    const findLayerAt = (y: number): number | null => {
+        const index = layers.findIndex(layer =>
+            y >= coordinateHelpers.toScreenY(layer.startDepth) && y <= coordinateHelpers.toScreenY(layer.endDepth)
+        );
+        return index >= 0 ? index : null;
     };
 
     // Add click handler for the plot area
-    const handlePlotClick = (event: React.PointerEvent) => {
+    const handlePlotClick = (event: React.PointerEvent<HTMLDivElement>) => {
+        setContextMenu(null);
+        if (viewport.handlePointerDown(event)) return;
+
         if (event.shiftKey && layers.length > 0) {
             const rect = event.currentTarget.getBoundingClientRect();
-            // const x = event.clientX - rect.left;
             const y = event.clientY - rect.top;
             
-            // Find which layer was clicked
-            for (let i = 0; i < layers.length; i++) {
-                const layer = layers[i];
-                const startY = (layer.startDepth - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin) * plotDimensions.height;
-                const endY = (layer.endDepth - axisLimits.ymin) / (axisLimits.ymax - axisLimits.ymin) * plotDimensions.height;
-                
-                if (y >= startY && y <= endY) {
-                    const newDepth = axisLimits.ymin + (y / plotDimensions.height) * (axisLimits.ymax - axisLimits.ymin);
-                    const newLayers = [...layers];
-                    
-                    // Split the current layer into two
-                    const upperLayer: Layer = {
-                        startDepth: layer.startDepth,
-                        endDepth: newDepth,
-                        velocity: layer.velocity
-                    };
-                    
-                    const lowerLayer: Layer = {
-                        startDepth: newDepth,
-                        endDepth: layer.endDepth,
-                        velocity: layer.velocity
-                    };
-                    
-                    // Replace the current layer with the two new layers
-                    newLayers.splice(i, 1, upperLayer, lowerLayer);
-                    setLayers(newLayers);
-                    break;
+            // Find which layer was clicked and split it there
+            const index = findLayerAt(y);
+            if (index !== null) {
+                const newDepth = coordinateHelpers.fromScreenY(y);
+                const newLayers = splitLayer(layers, index, newDepth);
+                if (newLayers !== layers) {
+                    setLayers(newLayers, `Split layer ${index + 1} at ${newDepth.toFixed(1)} m`);
                 }
             }
         }
     };
 
+    const handleContextMenu = (event: React.MouseEvent) => {
+        event.preventDefault();
+        if (layers.length === 0) return;
+
+        const rect = event.currentTarget.getBoundingClientRect();
+        const x = event.clientX - rect.left;
+        const y = event.clientY - rect.top;
+        const boundaryIndex = findBoundaryAt(y);
+        setContextMenu({
+            x,
+            y,
+            boundaryIndex,
+            layerIndex: boundaryIndex === null ? findLayerAt(y) : null
+        });
+    };
+
+    const applyMenuAction = (newLayers: Layer[], label: string) => {
+        setContextMenu(null);
+        if (newLayers !== layers) {
+            setLayers(newLayers, label);
+        }
+    };
+
+    // Entries for the open context menu; each keeps the model contiguous
+    const contextMenuItems = (menu: ContextMenuState) => {
+        const items: { label: string; action: () => void }[] = [];
+        const { layerIndex, boundaryIndex } = menu;
+
+        if (layerIndex !== null) {
+            const n = layerIndex + 1;
+            if (layerIndex > 0) {
+                items.push({
+                    label: 'Merge with layer above',
+                    action: () => applyMenuAction(mergeWithBelow(layers, layerIndex - 1), `Merge layers ${n - 1} and ${n}`)
+                });
+            }
+            if (layerIndex < layers.length - 1) {
+                items.push({
+                    label: 'Merge with layer below',
+                    action: () => applyMenuAction(mergeWithBelow(layers, layerIndex), `Merge layers ${n} and ${n + 1}`)
+                });
+            }
+            items.push({
+                label: 'Duplicate layer',
+                action: () => applyMenuAction(duplicateLayer(layers, layerIndex), `Duplicate layer ${n}`)
+            });
+            if (layers.length > 1) {
+                items.push({
+                    label: 'Delete layer',
+                    action: () => applyMenuAction(deleteLayer(layers, layerIndex), `Delete layer ${n}`)
+                });
+            }
+        }
+
+        if (boundaryIndex !== null && boundaryIndex > 0 && boundaryIndex < layers.length) {
+            const depth = layers[boundaryIndex].startDepth;
+            items.push({
+                label: 'Delete boundary',
+                action: () => applyMenuAction(
+                    deleteBoundary(layers, boundaryIndex),
+                    `Delete boundary ${boundaryIndex + 1} at ${depth.toFixed(1)} m`
+                )
+            });
+        }
+
+        items.push({
+            label: 'Insert half-space at bottom',
+            action: () => applyMenuAction(insertHalfSpace(layers), 'Insert half-space layer')
+        });
+
+        return items;
+    };
+
+    const handleAxisLimitChange = (
+        axis: "xmin" | "xmax" | "ymin" | "ymax",
+        value: string
+    ) => {
+        const numValue = parseFloat(value);
+        if (!isNaN(numValue)) {
+            const newLimits: AxisLimits = { ...axisLimits, [axis]: numValue };
+            if (newLimits.xmin >= newLimits.xmax || newLimits.ymin >= newLimits.ymax) {
+                return;
+            }
+            setAxisLimits(newLimits);
+        }
+    };
+
     useEffect(() => {
+        const handlePointerUp = () => dispatch({ type: 'endDrag' });
         window.addEventListener('pointerup', handlePointerUp);
         return () => window.removeEventListener('pointerup', handlePointerUp);
-    }, []);
+    }, [dispatch]);
 
     return (
         <div className="flex flex-col items-center border-2 border-gray-300 rounded-lg p-4 shadow-sm w-full">
@@ -388,7 +555,7 @@ export const RightPlot = () => {
                             <input
                                 type="number"
                                 value={axisLimits.ymax}
-                                onChange={(e) => setAxisLimits(prev => ({ ...prev, ymax: parseFloat(e.target.value) }))}
+                                onChange={(e) => handleAxisLimitChange("ymax", e.target.value)}
                                 className="w-24 px-2 py-1 text-sm border rounded shadow-sm"
                                 step="1"
                             />
@@ -398,11 +565,20 @@ export const RightPlot = () => {
                             <input
                                 type="number"
                                 value={axisLimits.ymin}
-                                onChange={(e) => setAxisLimits(prev => ({ ...prev, ymin: parseFloat(e.target.value) }))}
+                                onChange={(e) => handleAxisLimitChange("ymin", e.target.value)}
                                 className="w-24 px-2 py-1 text-sm border rounded shadow-sm"
                                 step="1"
                             />
                         </div>
+                        <label className="flex items-center gap-1 text-sm text-gray-600" title="Needs a positive minimum depth">
+                            <input
+                                type="checkbox"
+                                checked={yScale.type === 'log'}
+                                disabled={!(axisLimits.ymin > 0)}
+                                onChange={(e) => dispatch({ type: 'setRightAxisScales', scales: { y: e.target.checked ? 'log' : 'linear' } })}
+                            />
+                            Log depth
+                        </label>
                     </div>
                     <div className='flex flex-col'>
                         <div className="flex items-center justify-between">
@@ -410,7 +586,7 @@ export const RightPlot = () => {
                             <input
                                 type="number"
                                 value={axisLimits.xmax}
-                                onChange={(e) => setAxisLimits(prev => ({ ...prev, xmax: parseFloat(e.target.value) }))}
+                                onChange={(e) => handleAxisLimitChange("xmax", e.target.value)}
                                 className="w-24 px-2 py-1 text-sm border rounded shadow-sm"
                                 step="0.001"
                             />
@@ -420,11 +596,20 @@ export const RightPlot = () => {
                             <input
                                 type="number"
                                 value={axisLimits.xmin}
-                                onChange={(e) => setAxisLimits(prev => ({ ...prev, xmin: parseFloat(e.target.value) }))}
+                                onChange={(e) => handleAxisLimitChange("xmin", e.target.value)}
                                 className="w-24 px-2 py-1 text-sm border rounded shadow-sm"
                                 step="0.001"
                             />
                         </div>
+                        <label className="flex items-center gap-1 text-sm text-gray-600">
+                            <input
+                                type="checkbox"
+                                checked={xScale.type === 'log'}
+                                disabled={!(axisLimits.xmin > 0)}
+                                onChange={(e) => dispatch({ type: 'setRightAxisScales', scales: { x: e.target.checked ? 'log' : 'linear' } })}
+                            />
+                            Log Vs
+                        </label>
                     </div>
                 </div>
 
@@ -440,105 +625,212 @@ export const RightPlot = () => {
                         hover:file:bg-blue-100"
                 />
 
-                <div 
-                    ref={plotRef}
-                    className="relative border border-gray-200 rounded-lg bg-white shadow-sm w-full aspect-[4/3] min-h-[300px]"
-                    onPointerMove={handlePointerMove}
-                    onPointerUp={() => setDragState(null)}
-                    onPointerDown={handlePlotClick}
-                >
-                    {/* Y-axis labels (left side) */}
-                    <div className="absolute -left-8 top-0 h-full flex flex-col justify-between">
-                        <div className="text-xs">{axisLimits.ymin.toFixed(3)}</div>
-                        <div className="text-xs">{axisLimits.ymax.toFixed(3)}</div>
+                <div className="flex gap-2 justify-center mb-4">
+                    <button
+                        onClick={handleSaveModel}
+                        disabled={layers.length === 0}
+                        className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                    >
+                        Save model
+                    </button>
+                    <button
+                        onClick={() => downloadText(`${exportBaseName}.csv`, formatModelCsv(layers), 'text/csv')}
+                        disabled={layers.length === 0}
+                        className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                    >
+                        Export CSV
+                    </button>
+                    <button
+                        onClick={() => downloadText(`${exportBaseName}.json`, formatModelJson(layers), 'application/json')}
+                        disabled={layers.length === 0}
+                        className="px-4 py-1 text-sm font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                    >
+                        Export JSON
+                    </button>
+                </div>
+
+                {flaggedLayers.length > 0 && (
+                    <div className="text-xs text-gray-500 text-center mb-2">
+                        {`Grey layers: negligible sensitivity over ${formatPeriod(kernelPeriodMin)}–${formatPeriod(kernelPeriodMax)} s`}
                     </div>
+                )}
 
-                    {/* X-axis labels (bottom) */}
-                    <div className="absolute -bottom-6 left-0 w-full flex justify-between">
-                        <div className="text-xs">{axisLimits.xmin.toFixed(3)}</div>
-                        <div className="text-xs">{axisLimits.xmax.toFixed(3)}</div>
+                {violations.length > 0 && (
+                    <div className="text-xs text-red-600 text-center mb-2">
+                        {`Red layers break the model constraints (${violations.length} issue${violations.length === 1 ? '' : 's'}, listed under Constraints)`}
                     </div>
+                )}
 
-                    {plotRef.current && <Application
-                        className="w-full h-full"
-                        width={plotDimensions.width}
-                        height={plotDimensions.height}
-                        background="white"
+                {pseudoDepthDivisor !== null && (
+                    <div className="text-xs text-gray-500 text-center mb-2">
+                        {`Grey points: picks at pseudo-depth wavelength / ${pseudoDepthDivisor}`}
+                    </div>
+                )}
+
+                <ComparisonPanel
+                    difference={differenceIntervals ? difference : null}
+                    onDifferenceChange={setDifference}
+                    showEnvelope={envelope.length > 0}
+                    onShowEnvelopeChange={setShowEnvelope}
+                />
+
+                <ViewportToolbar
+                    canGoBack={viewport.canGoBack}
+                    canGoForward={viewport.canGoForward}
+                    boxArmed={viewport.boxArmed}
+                    onBack={viewport.goBack}
+                    onForward={viewport.goForward}
+                    onReset={viewport.resetView}
+                    onToggleBox={() => viewport.setBoxArmed(!viewport.boxArmed)}
+                />
+
+                <div className="flex gap-3 ml-14 mb-10">
+                    <div 
+                        ref={plotRef}
+                        className={`relative border border-gray-200 rounded-lg bg-white shadow-sm flex-1 min-w-0 aspect-[4/3] min-h-[300px] ${viewport.navigating ? 'cursor-move' : ''}`}
+                        onMouseDown={viewport.handleMouseDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerLeave={() => !dragState?.isDragging && setHoveredLine(null)}
+                        onPointerUp={() => {
+                            viewport.handlePointerUp();
+                            dispatch({ type: 'endDrag' });
+                        }}
+                        onPointerDown={handlePlotClick}
+                        onContextMenu={handleContextMenu}
+                        onDoubleClick={viewport.resetView}
                     >
-                        <pixiContainer>
-                            {/* Single graphics object for all lines */}
-                            <pixiGraphics draw={drawAllLines} />
+                        <AxisLabels xScale={xScale} yScale={yScale} xTitle="Vs (m/s)" yTitle="Depth (m)" />
 
-                            {/* Separate container for hit areas */}
+                        {plotRef.current && <Application
+                            className="w-full h-full"
+                            width={plotDimensions.width}
+                            height={plotDimensions.height}
+                            background="white"
+                        >
                             <pixiContainer>
-                                {/* Hit area for first boundary */}
-                                {layers.length > 0 && (
-                                    <pixiGraphics
-                                        draw={(g: Graphics) => {
-                                            g.clear();
-                                            g.setFillStyle({ color: 0xFFFFFF, alpha: 0 });
-                                            const y = coordinateHelpers.toScreenY(layers[0].startDepth);
-                                            g.rect(0, y - 10, plotDimensions.width, 20);
-                                            g.fill();
-                                        }}
-                                        eventMode="static"
-                                        cursor="ns-resize"
-                                        onpointerdown={(e:any) => handlePointerDown(e, 0, 'boundary')}
-                                    />
-                                )}
-
-                                {/* Hit areas for middle boundaries */}
-                                {layers.map((layer, index) => (
-                                    <pixiGraphics
-                                        draw={(g: Graphics) => {
-                                            g.clear();
-                                            g.setFillStyle({ color: 0xFFFFFF, alpha: 0 });
-                                            const y = coordinateHelpers.toScreenY(layer.endDepth);
-                                            g.rect(0, y - 10, plotDimensions.width, 20);
-                                            g.fill();
-                                        }}
-                                        eventMode="static"
-                                        cursor="ns-resize"
-                                        onpointerdown={(e:any) => handlePointerDown(e, index + 1, 'boundary')}
-                                    />
+                                <pixiGraphics draw={drawGrid} />
+                                <pixiGraphics draw={drawInsensitive} />
+                                <pixiGraphics draw={drawViolations} />
+                                <pixiGraphics draw={drawPickBand} />
+                                <pixiGraphics draw={drawPseudoDepth} />
+                                <pixiGraphics draw={drawEnvelope} />
+                                <pixiGraphics draw={drawComparisons} />
+
+                                {/* Single graphics object for all lines */}
+                                <pixiGraphics draw={drawAllLines} />
+
+                                {/* Separate container for hit areas */}
+                                <pixiContainer>
+                                    {/* Hit area for first boundary */}
+                                    {layers.length > 0 && (
+                                        <pixiGraphics
+                                            draw={(g: Graphics) => {
+                                                g.clear();
+                                                g.setFillStyle({ color: 0xFFFFFF, alpha: 0 });
+                                                const y = coordinateHelpers.toScreenY(layers[0].startDepth);
+                                                g.rect(0, y - 10, plotDimensions.width, 20);
+                                                g.fill();
+                                            }}
+                                            eventMode="static"
+                                            cursor="ns-resize"
+                                            onpointerdown={(e: FederatedPointerEvent) => handlePointerDown(e, 0, 'boundary')}
+                                        />
+                                    )}
+
+                                    {/* Hit areas for middle boundaries */}
+                                    {layers.map((layer, index) => (
+                                        <pixiGraphics
+                                            draw={(g: Graphics) => {
+                                                g.clear();
+                                                g.setFillStyle({ color: 0xFFFFFF, alpha: 0 });
+                                                const y = coordinateHelpers.toScreenY(layer.endDepth);
+                                                g.rect(0, y - 10, plotDimensions.width, 20);
+                                                g.fill();
+                                            }}
+                                            eventMode="static"
+                                            cursor="ns-resize"
+                                            onpointerdown={(e: FederatedPointerEvent) => handlePointerDown(e, index + 1, 'boundary')}
+                                        />
+                                    ))}
+
+                                    {/* Hit areas for velocity lines */}
+                                    {layers.map((layer, index) => (
+                                        <pixiGraphics
+                                            draw={(g: Graphics) => {
+                                                g.clear();
+                                                g.setFillStyle({ color: 0xFFFFFF, alpha: 0 });
+                                                const x = coordinateHelpers.toScreenX(layer.velocity);
+                                                const startY = coordinateHelpers.toScreenY(layer.startDepth);
+                                                const endY = coordinateHelpers.toScreenY(layer.endDepth);
+                                                g.rect(x - 10, startY, 20, endY - startY);
+                                                g.fill();
+                                            }}
+                                            eventMode="static"
+                                            cursor="ew-resize"
+                                            onpointerdown={(e: FederatedPointerEvent) => handlePointerDown(e, index, 'velocity')}
+                                        />
+                                    ))}
+                                </pixiContainer>
+                            </pixiContainer>
+                        </Application>}
+
+                        {viewport.zoomBox && <ZoomBoxOverlay box={viewport.zoomBox} />}
+
+                        {/* Tooltip */}
+                        {hoveredLine && (
+                            <div
+                                className="absolute bg-white border border-gray-300 rounded px-2 py-1 text-sm shadow-sm pointer-events-none"
+                                style={{
+                                    left: (hoveredLine.x || 0) + 2,
+                                    top: (hoveredLine.y || 0) - 2,
+                                    transform: 'translate(0, -100%)',
+                                    zIndex: 1000
+                                }}
+                            >
+                                {hoveredLine.type === 'depth' 
+                                    ? `Depth: ${hoveredLine.value.toFixed(2)}` 
+                                    : `Velocity: ${hoveredLine.value.toFixed(2)}`}
+                            </div>
+                        )}
+
+                        {/* Layer / boundary context menu */}
+                        {contextMenu && (
+                            <div
+                                className="absolute bg-white border border-gray-300 rounded shadow-md py-1 text-sm"
+                                style={{ left: contextMenu.x, top: contextMenu.y, zIndex: 1001 }}
+                                onPointerDown={(e) => e.stopPropagation()}
+                                onContextMenu={(e) => {
+                                    e.preventDefault();
+                                    e.stopPropagation();
+                                }}
+                            >
+                                {contextMenuItems(contextMenu).map(item => (
+                                    <div
+                                        key={item.label}
+                                        onClick={item.action}
+                                        className="px-3 py-1 cursor-pointer whitespace-nowrap hover:bg-blue-50"
+                                    >
+                                        {item.label}
+                                    </div>
                                 ))}
+                            </div>
+                        )}
+                    </div>
 
-                                {/* Hit areas for velocity lines */}
-                                {layers.map((layer, index) => (
-                                    <pixiGraphics
-                                        draw={(g: Graphics) => {
-                                            g.clear();
-                                            g.setFillStyle({ color: 0xFFFFFF, alpha: 0 });
-                                            const x = coordinateHelpers.toScreenX(layer.velocity);
-                                            const startY = coordinateHelpers.toScreenY(layer.startDepth);
-                                            const endY = coordinateHelpers.toScreenY(layer.endDepth);
-                                            g.rect(x - 10, startY, 20, endY - startY);
-                                            g.fill();
-                                        }}
-                                        eventMode="static"
-                                        cursor="ew-resize"
-                                        onpointerdown={(e:any) => handlePointerDown(e, index, 'velocity')}
-                                    />
-                                ))}
-                            </pixiContainer>
-                        </pixiContainer>
-                    </Application>}
-
-                    {/* Tooltip */}
-                    {hoveredLine && (
-                        <div
-                            className="absolute bg-white border border-gray-300 rounded px-2 py-1 text-sm shadow-sm pointer-events-none"
-                            style={{
-                                left: (hoveredLine.x || 0) + 2,
-                                top: (hoveredLine.y || 0) - 2,
-                                transform: 'translate(0, -100%)',
-                                zIndex: 1000
-                            }}
-                        >
-                            {hoveredLine.type === 'depth' 
-                                ? `Depth: ${hoveredLine.value.toFixed(2)}` 
-                                : `Velocity: ${hoveredLine.value.toFixed(2)}`}
-                        </div>
+                    <SensitivityPanel
+                        sensitivity={sensitivity}
+                        depthScale={yScale}
+                        width={SENSITIVITY_PANEL_WIDTH}
+                        height={plotDimensions.height}
+                    />
+
+                    {differenceIntervals && (
+                        <DifferencePanel
+                            intervals={differenceIntervals}
+                            depthScale={yScale}
+                            width={DIFFERENCE_PANEL_WIDTH}
+                            height={plotDimensions.height}
+                        />
                     )}
                 </div>
             </div>
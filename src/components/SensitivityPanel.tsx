@@ -0,0 +1,84 @@
+import { Application, extend } from '@pixi/react';
+import { Graphics, Container } from 'pixi.js';
+import { useCallback, useMemo } from 'react';
+import { SensitivityResult } from '../hooks/useSensitivityKernels';
+import { colormapColor } from '../utils/dispersionImage';
+import { Scale, createScale, formatTick } from '../utils/scale';
+import { normalizedDepthKernels } from '../utils/sensitivity';
+
+extend({ Graphics, Container });
+
+interface SensitivityPanelProps {
+    sensitivity: SensitivityResult;
+    depthScale: Scale;     // shared with the layer plot so rows line up with the layers
+    width: number;
+    height: number;
+}
+
+const toHex = ([r, g, b]: [number, number, number]) => (r << 16) | (g << 8) | b;
+
+/**
+ * Heatmap of where in depth each period is sensitive to Vs: period across
+ * (log), depth down on the layer plot's scale, one row per layer.
+ */
+export const SensitivityPanel = ({ sensitivity, depthScale, width, height }: SensitivityPanelProps) => {
+    const { layers, periods, kernels } = sensitivity;
+    const normalized = useMemo(() => normalizedDepthKernels(layers, kernels), [layers, kernels]);
+
+    const periodScale = useMemo(
+        () => periods.length > 1 ? createScale('log', periods[0], periods[periods.length - 1], 0, width) : null,
+        [periods, width]
+    );
+
+    const drawKernels = useCallback((g: Graphics) => {
+        g.clear();
+        if (!periodScale) return;
+
+        // Cell edges halfway (in log period) between neighbouring samples
+        const edges = periods.map((period, j) => j === 0 ? period : Math.sqrt(periods[j - 1] * period));
+        edges.push(periods[periods.length - 1]);
+
+        layers.forEach((layer, i) => {
+            const top = depthScale.toScreen(layer.startDepth);
+            const bottom = depthScale.toScreen(layer.endDepth);
+            periods.forEach((_, j) => {
+                const left = periodScale.toScreen(edges[j]);
+                const right = periodScale.toScreen(edges[j + 1]);
+                g.rect(left, top, right - left, bottom - top);
+                g.fill({ color: toHex(colormapColor('viridis', normalized[i]?.[j] ?? 0)) });
+            });
+        });
+    }, [layers, periods, normalized, periodScale, depthScale]);
+
+    return (
+        <div className="relative shrink-0 border border-gray-200 rounded-lg bg-white shadow-sm" style={{ width, height }}>
+            <div className="absolute left-0 w-full text-center text-xs font-medium text-gray-600 pointer-events-none" style={{ bottom: 'calc(100% + 2px)' }}>
+                Sensitivity
+            </div>
+
+            {layers.length > 0 && periodScale ? (
+                <Application className="w-full h-full" width={width} height={height} background="white">
+                    <pixiContainer>
+                        <pixiGraphics draw={drawKernels} />
+                    </pixiContainer>
+                </Application>
+            ) : (
+                <div className="p-2 text-xs text-gray-500">Needs a layer model and a period range</div>
+            )}
+
+            {periodScale && (
+                <>
+                    <div className="absolute left-0 text-xs pointer-events-none" style={{ top: 'calc(100% + 2px)' }}>
+                        {formatTick(Number(periods[0].toPrecision(2)))}
+                    </div>
+                    <div className="absolute right-0 text-xs pointer-events-none" style={{ top: 'calc(100% + 2px)' }}>
+                        {formatTick(Number(periods[periods.length - 1].toPrecision(2)))}
+                    </div>
+                    <div className="absolute left-0 w-full text-center text-xs font-medium text-gray-600 pointer-events-none" style={{ top: 'calc(100% + 18px)' }}>
+                        Period (s)
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
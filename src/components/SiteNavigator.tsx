@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { useAppDispatch, useAppState } from '../store/context';
+import { SiteStatus, currentSites, isSiteEdited, siteStatus } from '../store/state';
+import { buildSites } from '../utils/batch';
+import { formatModelFile } from '../utils/modelFile';
+import { downloadBlob } from '../utils/download';
+import { createZip } from '../utils/zip';
+
+const TEXT_FILE_PATTERN = /\.(txt|csv|tsv|dat)$/i;
+
+const STATUS_STYLES: Record<SiteStatus, string> = {
+    unedited: 'bg-gray-100 text-gray-600',
+    edited: 'bg-amber-100 text-amber-800',
+    approved: 'bg-green-100 text-green-800',
+};
+
+// Files in a dropped item, descending into folders
+const filesOfEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+    }
+    if (!entry.isDirectory) return [];
+
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns the folder in batches until an empty one
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        entries.push(...batch);
+    }
+    return (await Promise.all(entries.map(filesOfEntry))).flat();
+};
+
+/** Load a batch of sounding sites and step through them one at a time. */
+export const SiteNavigator = () => {
+    const state = useAppState();
+    const dispatch = useAppDispatch();
+    const [skipped, setSkipped] = useState<string[]>([]);
+    const [dragOver, setDragOver] = useState(false);
+
+    const sites = currentSites(state);
+    const active = state.activeSite;
+    const editedSites = sites.filter(site => isSiteEdited(site) && site.layers.length > 0);
+
+    const loadFiles = async (files: File[]) => {
+        const textFiles = files.filter(file => TEXT_FILE_PATTERN.test(file.name));
+        if (textFiles.length === 0) return;
+        if (sites.some(isSiteEdited) && !window.confirm('Replace the current batch? Edited sites that were not exported are lost.')) return;
+
+        const result = buildSites(await Promise.all(textFiles.map(async file => ({ name: file.name, text: await file.text() }))));
+        const ignored = files.filter(file => !TEXT_FILE_PATTERN.test(file.name)).map(file => `${file.name}: not a text file`);
+        setSkipped([...result.skipped, ...ignored]);
+        dispatch({ type: 'loadSites', sites: result.sites });
+    };
+
+    const handleDrop = async (event: React.DragEvent) => {
+        event.preventDefault();
+        setDragOver(false);
+        const entries = Array.from(event.dataTransfer.items)
+            .map(item => item.webkitGetAsEntry())
+            .filter((entry): entry is FileSystemEntry => entry !== null);
+        const files = entries.length > 0
+            ? (await Promise.all(entries.map(filesOfEntry))).flat()
+            : Array.from(event.dataTransfer.files);
+        await loadFiles(files);
+    };
+
+    const handleInput = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        await loadFiles(files);
+    };
+
+    // One archive, since browsers block a burst of separate downloads; a folder per site keeps equal file names apart
+    const exportEdited = () => {
+        const entries = editedSites.map(site => ({
+            name: `${site.name}/${site.modelFile?.name ?? `${site.name}_model.txt`}`,
+            text: formatModelFile(site.layers, site.modelFile),
+        }));
+        downloadBlob('edited_models.zip', createZip(entries));
+    };
+
+    const openSite = (index: number) => dispatch({ type: 'openSite', index });
+    const activeSite = active !== null ? sites[active] : null;
+
+    return (
+        <div
+            className={`flex flex-col gap-2 border-2 rounded-lg p-3 mb-6 text-sm text-gray-700 ${dragOver ? 'border-blue-400 bg-blue-50' : 'border-dashed border-gray-300'}`}
+            onDragOver={(e) => {
+                e.preventDefault();
+                setDragOver(true);
+            }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={handleDrop}
+        >
+            <div className="flex gap-2 flex-wrap items-center justify-center">
+                <span>Batch: drop site files or a folder here, or</span>
+                <label className="px-3 py-0.5 font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 cursor-pointer">
+                    Choose files
+                    <input type="file" multiple accept=".txt,.csv,.tsv,.dat" onChange={handleInput} className="hidden" />
+                </label>
+                <label className="px-3 py-0.5 font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 cursor-pointer">
+                    Choose folder
+                    <input
+                        type="file"
+                        ref={(input) => input?.setAttribute('webkitdirectory', '')}
+                        onChange={handleInput}
+                        className="hidden"
+                    />
+                </label>
+                <span className="text-xs text-gray-500">Picks and models pair by name, e.g. SITE01_picks.csv + SITE01_model.txt</span>
+            </div>
+
+            {sites.length > 0 && active !== null && activeSite && (
+                <div className="flex gap-2 flex-wrap items-center justify-center">
+                    <button
+                        onClick={() => openSite(active - 1)}
+                        disabled={active === 0}
+                        className="px-3 py-0.5 font-semibold rounded-full bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+                    >
+                        Previous
+                    </button>
+                    <select
+                        value={active}
+                        onChange={(e) => openSite(Number(e.target.value))}
+                        className="px-1 py-0.5 border rounded"
+                    >
+                        {sites.map((site, index) => (
+                            <option key={site.name} value={index}>{`${site.name} (${siteStatus(site)})`}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => openSite(active + 1)}
+                        disabled={active === sites.length - 1}
+                        className="px-3 py-0.5 font-semibold rounded-full bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+                    >
+                        Next
+                    </button>
+                    <span className={`px-2 py-0.5 rounded text-xs font-semibold ${STATUS_STYLES[siteStatus(activeSite)]}`}>
+                        {siteStatus(activeSite)}
+                    </span>
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="checkbox"
+                            checked={activeSite.approved}
+                            onChange={(e) => dispatch({ type: 'setSiteApproved', index: active, approved: e.target.checked })}
+                        />
+                        Approved
+                    </label>
+                    <span className="text-xs text-gray-500">
+                        {`${active + 1} of ${sites.length}, ${sites.filter(isSiteEdited).length} edited, ${sites.filter(site => site.approved).length} approved`}
+                    </span>
+                    <button
+                        onClick={exportEdited}
+                        disabled={editedSites.length === 0}
+                        className="px-3 py-0.5 font-semibold rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                    >
+                        {`Export edited models (${editedSites.length}, zip)`}
+                    </button>
+                </div>
+            )}
+
+            {skipped.length > 0 && (
+                <details className="text-xs text-red-600 text-center">
+                    <summary>{`${skipped.length} file(s) skipped`}</summary>
+                    {skipped.map(reason => <div key={reason}>{reason}</div>)}
+                </details>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,97 @@
+import { useMemo, useState } from 'react';
+import { useAppState } from '../store/context';
+import { depthToVelocity, ec8GroundType, nehrpSiteClass, timeAveragedVelocity } from '../utils/siteParameters';
+
+const formatVelocity = (velocity: number) => `${velocity.toFixed(0)} m/s`;
+
+/** Vs30, VsZ, depth to a Vs horizon and site class of the current model, recomputed on every edit. */
+export const SiteParametersPanel = () => {
+    const { layers } = useAppState();
+    const [depth, setDepth] = useState(10);
+    const [horizon, setHorizon] = useState(760);
+
+    const vs30 = useMemo(() => timeAveragedVelocity(layers, 30), [layers]);
+    const vsZ = useMemo(() => timeAveragedVelocity(layers, depth), [layers, depth]);
+    const horizonDepth = useMemo(() => depthToVelocity(layers, horizon), [layers, horizon]);
+    const modelBottom = Math.max(...layers.map(layer => layer.endDepth));
+
+    if (layers.length === 0) {
+        return (
+            <div className="border-2 border-gray-300 rounded-lg p-4 shadow-sm w-full text-sm text-gray-500 text-center">
+                Load a layer model to see its site parameters
+            </div>
+        );
+    }
+
+    const warnings = [
+        vs30?.extrapolated && `The model ends at ${modelBottom.toFixed(1)} m; Vs30 carries its deepest layer down to 30 m`,
+        vsZ?.extrapolated && `The model ends at ${modelBottom.toFixed(1)} m; Vs${depth} carries its deepest layer down to ${depth} m`,
+    ].filter((warning): warning is string => Boolean(warning));
+
+    return (
+        <div className="border-2 border-gray-300 rounded-lg p-4 shadow-sm w-full text-sm text-gray-700">
+            <table className="w-full">
+                <tbody>
+                    <tr>
+                        <td className="px-1 py-0.5">Vs30</td>
+                        <td className="px-1 py-0.5 font-semibold">{vs30 ? formatVelocity(vs30.velocity) : '–'}</td>
+                    </tr>
+                    <tr>
+                        <td className="px-1 py-0.5">
+                            <label className="flex items-center gap-1">
+                                Vs to
+                                <input
+                                    type="number"
+                                    value={depth}
+                                    min="0"
+                                    onChange={(e) => {
+                                        const value = parseFloat(e.target.value);
+                                        if (value > 0) setDepth(value);
+                                    }}
+                                    className="w-16 px-1 border rounded"
+                                />
+                                m
+                            </label>
+                        </td>
+                        <td className="px-1 py-0.5 font-semibold">{vsZ ? formatVelocity(vsZ.velocity) : '–'}</td>
+                    </tr>
+                    <tr>
+                        <td className="px-1 py-0.5">
+                            <label className="flex items-center gap-1">
+                                Depth to Vs ≥
+                                <input
+                                    type="number"
+                                    value={horizon}
+                                    min="0"
+                                    onChange={(e) => {
+                                        const value = parseFloat(e.target.value);
+                                        if (value > 0) setHorizon(value);
+                                    }}
+                                    className="w-16 px-1 border rounded"
+                                />
+                                m/s
+                            </label>
+                        </td>
+                        <td className="px-1 py-0.5 font-semibold">
+                            {horizonDepth !== null ? `${horizonDepth.toFixed(1)} m` : `not reached above ${modelBottom.toFixed(1)} m`}
+                        </td>
+                    </tr>
+                    <tr>
+                        <td className="px-1 py-0.5">Site class (NEHRP)</td>
+                        <td className="px-1 py-0.5 font-semibold">{vs30 ? nehrpSiteClass(vs30.velocity) : '–'}</td>
+                    </tr>
+                    <tr>
+                        <td className="px-1 py-0.5">Ground type (EC8)</td>
+                        <td className="px-1 py-0.5 font-semibold">{vs30 ? ec8GroundType(vs30.velocity) : '–'}</td>
+                    </tr>
+                </tbody>
+            </table>
+            {warnings.map(warning => (
+                <div key={warning} className="text-xs text-amber-700 mt-2">{warning}</div>
+            ))}
+            <div className="text-xs text-gray-500 mt-2">
+                Classes from Vs30 alone: NEHRP F and EC8 E, S1 and S2 need the full soil description
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,85 @@
+import { useAppDispatch, useAppState } from '../store/context';
+import {
+    DEFAULT_ERROR_MODELS,
+    DefaultErrorModel,
+    UNCERTAINTY_DISPLAYS,
+    UncertaintyDisplay,
+    UncertaintySettings,
+    UncertaintyUnits,
+} from '../utils/uncertainty';
+
+const PercentInput = ({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) => (
+    <label className="flex items-center gap-1">
+        {label}
+        <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={value}
+            onChange={(e) => {
+                const numValue = parseFloat(e.target.value);
+                if (numValue >= 0) onChange(numValue);
+            }}
+            className="w-14 px-1 border rounded"
+        />
+    </label>
+);
+
+export const UncertaintyControls = () => {
+    const { uncertaintySettings: settings } = useAppState();
+    const dispatch = useAppDispatch();
+    const update = (change: Partial<UncertaintySettings>) => dispatch({ type: 'setUncertaintySettings', settings: change });
+
+    return (
+        <div className="flex gap-4 flex-wrap items-center mb-4 text-sm text-gray-700">
+            <label className="flex items-center gap-1">
+                Uncertainty:
+                <select
+                    value={settings.display}
+                    onChange={(e) => update({ display: e.target.value as UncertaintyDisplay })}
+                    className="px-1 py-0.5 border rounded"
+                >
+                    {UNCERTAINTY_DISPLAYS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+            </label>
+            <label className="flex items-center gap-1">
+                Pick values are
+                <select
+                    value={settings.units}
+                    onChange={(e) => update({ units: e.target.value as UncertaintyUnits })}
+                    className="px-1 py-0.5 border rounded"
+                >
+                    <option value="absolute">absolute (m/s)</option>
+                    <option value="percent">percent</option>
+                </select>
+            </label>
+            <label className="flex items-center gap-1">
+                Default model:
+                <select
+                    value={settings.defaultModel}
+                    onChange={(e) => update({ defaultModel: e.target.value as DefaultErrorModel })}
+                    className="px-1 py-0.5 border rounded"
+                >
+                    {DEFAULT_ERROR_MODELS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </select>
+            </label>
+            {settings.defaultModel === 'fixed' && (
+                <PercentInput label="%" value={settings.fixedPercent} onChange={(fixedPercent) => update({ fixedPercent })} />
+            )}
+            {settings.defaultModel === 'frequency' && (
+                <>
+                    <PercentInput
+                        label="% at low f"
+                        value={settings.lowFrequencyPercent}
+                        onChange={(lowFrequencyPercent) => update({ lowFrequencyPercent })}
+                    />
+                    <PercentInput
+                        label="% at high f"
+                        value={settings.highFrequencyPercent}
+                        onChange={(highFrequencyPercent) => update({ highFrequencyPercent })}
+                    />
+                </>
+            )}
+        </div>
+    );
+};
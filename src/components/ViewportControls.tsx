@@ -0,0 +1,50 @@
+import { ZoomBox } from '../hooks/usePlotViewport';
+
+interface ViewportToolbarProps {
+    canGoBack: boolean;
+    canGoForward: boolean;
+    boxArmed: boolean;
+    onBack: () => void;
+    onForward: () => void;
+    onReset: () => void;
+    onToggleBox: () => void;
+}
+
+const buttonClass = 'px-3 py-0.5 text-sm font-semibold rounded-full disabled:opacity-50';
+const idleClass = 'bg-gray-100 text-gray-700 hover:bg-gray-200';
+
+/** View history and zoom buttons shown above a plot. */
+export const ViewportToolbar = ({ canGoBack, canGoForward, boxArmed, onBack, onForward, onReset, onToggleBox }: ViewportToolbarProps) => (
+    <div className="flex gap-2 flex-wrap items-center justify-center mb-2 text-sm text-gray-700">
+        <button onClick={onBack} disabled={!canGoBack} className={`${buttonClass} ${idleClass}`} title="Previous view">
+            Back
+        </button>
+        <button onClick={onForward} disabled={!canGoForward} className={`${buttonClass} ${idleClass}`} title="Next view">
+            Forward
+        </button>
+        <button onClick={onReset} className={`${buttonClass} ${idleClass}`} title="Fit the view to the data (or double-click the plot)">
+            Reset
+        </button>
+        <button
+            onClick={onToggleBox}
+            className={`${buttonClass} ${boxArmed ? 'bg-blue-100 text-blue-700' : idleClass}`}
+            title="Drag a rectangle to zoom into (or Ctrl+drag)"
+        >
+            Box zoom
+        </button>
+        <span className="text-xs text-gray-500">Wheel to zoom, middle-drag or Space+drag to pan</span>
+    </div>
+);
+
+/** Rubber band for a box zoom in progress. */
+export const ZoomBoxOverlay = ({ box }: { box: ZoomBox }) => (
+    <div
+        className="absolute border border-gray-700 bg-gray-400/20 pointer-events-none"
+        style={{
+            left: Math.min(box.x0, box.x1),
+            top: Math.min(box.y0, box.y1),
+            width: Math.abs(box.x1 - box.x0),
+            height: Math.abs(box.y1 - box.y0)
+        }}
+    />
+);
@@ -0,0 +1,211 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { AxisLimits } from '../types';
+import { useAppDispatch, useAppState } from '../store/context';
+import { PlotId } from '../store/state';
+import { Scale } from '../utils/scale';
+import { boxLimits, panBy, zoomAt } from '../utils/viewport';
+
+// Zoom factor per pixel of wheel movement
+const WHEEL_ZOOM_RATE = 0.0015;
+// A wheel gesture ends after this long without events; each gesture is one history entry
+const WHEEL_GESTURE_MS = 400;
+// Smaller boxes are treated as a click and leave the view unchanged
+const MIN_BOX_SIZE = 5;
+
+export interface ZoomBox {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+interface PanStart {
+    x: number;
+    y: number;
+    xScale: Scale;
+    yScale: Scale;
+}
+
+interface PlotViewportOptions {
+    plot: PlotId;
+    plotRef: RefObject<HTMLDivElement>;
+    xScale: Scale;
+    yScale: Scale;
+    fitLimits: () => AxisLimits | null;   // limits for "reset", null when there is nothing to fit
+}
+
+// Controls where space types, toggles or presses; it stays theirs
+const usesSpaceKey = (target: EventTarget | null) => {
+    const element = target as HTMLElement | null;
+    return !!element && (
+        ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(element.tagName) || element.isContentEditable
+    );
+};
+
+const localPosition = (event: React.MouseEvent) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+};
+
+/**
+ * Wheel zoom, pan and box zoom for a plot area, with back / forward through
+ * the plot's view history. Middle-drag or space-drag pans, Ctrl-drag or an
+ * armed box zoom draws a zoom rectangle.
+ *
+ * The pointer handlers return true when they consumed the event, so the
+ * plot's own editing handlers run only for the rest.
+ */
+export const usePlotViewport = ({ plot, plotRef, xScale, yScale, fitLimits }: PlotViewportOptions) => {
+    const { viewHistory } = useAppState();
+    const dispatch = useAppDispatch();
+    const [spaceHeld, setSpaceHeld] = useState(false);
+    const [boxArmed, setBoxArmed] = useState(false);
+    const [zoomBox, setZoomBox] = useState<ZoomBox | null>(null);
+    const panStart = useRef<PanStart | null>(null);
+    const lastWheel = useRef(0);
+
+    const setLimits = useCallback((limits: AxisLimits) => {
+        dispatch({ type: plot === 'left' ? 'setLeftAxisLimits' : 'setRightAxisLimits', limits });
+    }, [dispatch, plot]);
+
+    const recordView = useCallback(() => dispatch({ type: 'recordView', plot }), [dispatch, plot]);
+
+    // React registers wheel listeners as passive, so preventDefault needs a native one
+    useEffect(() => {
+        const element = plotRef.current;
+        if (!element) return;
+
+        const handleWheel = (event: WheelEvent) => {
+            event.preventDefault();
+            if (event.timeStamp - lastWheel.current > WHEEL_GESTURE_MS) recordView();
+            lastWheel.current = event.timeStamp;
+
+            const rect = element.getBoundingClientRect();
+            const factor = Math.exp(event.deltaY * WHEEL_ZOOM_RATE);
+            setLimits(zoomAt(xScale, yScale, event.clientX - rect.left, event.clientY - rect.top, factor));
+        };
+        element.addEventListener('wheel', handleWheel, { passive: false });
+        return () => element.removeEventListener('wheel', handleWheel);
+    }, [plotRef, xScale, yScale, recordView, setLimits]);
+
+    // Space pans only while the pointer is over the plot, it has focus, or a pan is under way
+    const pointerOver = useRef(false);
+    useEffect(() => {
+        const element = plotRef.current;
+        if (!element) return;
+
+        const handleEnter = () => { pointerOver.current = true; };
+        const handleLeave = () => { pointerOver.current = false; };
+        element.addEventListener('pointerenter', handleEnter);
+        element.addEventListener('pointerleave', handleLeave);
+        return () => {
+            element.removeEventListener('pointerenter', handleEnter);
+            element.removeEventListener('pointerleave', handleLeave);
+        };
+    }, [plotRef]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key !== ' ' || usesSpaceKey(event.target)) return;
+            const element = plotRef.current;
+            const overPlot = pointerOver.current || !!element?.contains(document.activeElement);
+            if (!overPlot && !panStart.current) return;
+            // Keep the page from scrolling while space is used for panning
+            event.preventDefault();
+            setSpaceHeld(true);
+        };
+        const handleKeyUp = (event: KeyboardEvent) => {
+            if (event.key === ' ') setSpaceHeld(false);
+        };
+        const handleBlur = () => setSpaceHeld(false);
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        window.addEventListener('blur', handleBlur);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            window.removeEventListener('blur', handleBlur);
+        };
+    }, [plotRef]);
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>): boolean => {
+        const isPan = event.button === 1 || (event.button === 0 && spaceHeld);
+        const isBox = event.button === 0 && (boxArmed || event.ctrlKey);
+        if (!isPan && !isBox) return false;
+
+        event.preventDefault();
+        event.currentTarget.setPointerCapture(event.pointerId);
+        const { x, y } = localPosition(event);
+        if (isPan) {
+            recordView();
+            panStart.current = { x, y, xScale, yScale };
+        } else {
+            setZoomBox({ x0: x, y0: y, x1: x, y1: y });
+        }
+        return true;
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>): boolean => {
+        const { x, y } = localPosition(event);
+        if (panStart.current) {
+            // Measured from the press so moves arriving before a re-render are not lost
+            const start = panStart.current;
+            setLimits(panBy(start.xScale, start.yScale, x - start.x, y - start.y));
+            return true;
+        }
+        if (zoomBox) {
+            setZoomBox({ ...zoomBox, x1: x, y1: y });
+            return true;
+        }
+        return false;
+    };
+
+    const handlePointerUp = (): boolean => {
+        if (panStart.current) {
+            panStart.current = null;
+            return true;
+        }
+        if (zoomBox) {
+            if (Math.abs(zoomBox.x1 - zoomBox.x0) >= MIN_BOX_SIZE && Math.abs(zoomBox.y1 - zoomBox.y0) >= MIN_BOX_SIZE) {
+                recordView();
+                setLimits(boxLimits(xScale, yScale, zoomBox.x0, zoomBox.y0, zoomBox.x1, zoomBox.y1));
+            }
+            setZoomBox(null);
+            setBoxArmed(false);
+            return true;
+        }
+        return false;
+    };
+
+    // Stops the browser's middle-button autoscroll, which pointer events cannot cancel
+    const handleMouseDown = (event: React.MouseEvent) => {
+        if (event.button === 1) event.preventDefault();
+    };
+
+    const resetView = () => {
+        const limits = fitLimits();
+        if (!limits) return;
+        recordView();
+        setLimits(limits);
+    };
+
+    const history = viewHistory[plot];
+
+    return {
+        // Presses on the plot navigate instead of editing
+        navigating: spaceHeld || boxArmed,
+        boxArmed,
+        setBoxArmed,
+        zoomBox,
+        handlePointerDown,
+        handlePointerMove,
+        handlePointerUp,
+        handleMouseDown,
+        resetView,
+        canGoBack: history.back.length > 0,
+        canGoForward: history.forward.length > 0,
+        goBack: () => dispatch({ type: 'viewBack', plot }),
+        goForward: () => dispatch({ type: 'viewForward', plot }),
+    };
+};
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { Layer } from '../types';
+import { computeSensitivityKernels } from '../utils/sensitivity';
+
+// Kernels take a few hundred solves, so wait for the model to settle (e.g. mid-drag)
+const KERNEL_DELAY_MS = 150;
+const PERIOD_SAMPLES = 24;
+
+export interface SensitivityResult {
+    layers: Layer[];      // model the kernels were computed for
+    periods: number[];
+    kernels: number[][];  // [layer][period]
+}
+
+/**
+ * Vs sensitivity kernels of the model at log-spaced periods across
+ * [periodMin, periodMax], recomputed shortly after the inputs stop changing.
+ */
+export const useSensitivityKernels = (layers: Layer[], periodMin: number, periodMax: number): SensitivityResult => {
+    const [result, setResult] = useState<SensitivityResult>({ layers: [], periods: [], kernels: [] });
+
+    useEffect(() => {
+        const timer = window.setTimeout(() => {
+            const valid = periodMin > 0 && periodMax > periodMin && isFinite(periodMax);
+            const periods = valid
+                ? Array.from({ length: PERIOD_SAMPLES }, (_, i) => periodMin * Math.pow(periodMax / periodMin, i / (PERIOD_SAMPLES - 1)))
+                : [];
+            setResult({ layers, periods, kernels: computeSensitivityKernels(layers, periods) });
+        }, KERNEL_DELAY_MS);
+        return () => window.clearTimeout(timer);
+    }, [layers, periodMin, periodMax]);
+
+    return result;
+};
@@ -0,0 +1,46 @@
+import { ReactNode, useEffect, useReducer, useRef, useState } from 'react';
+import { AppDispatchContext, AppStateContext } from './context';
+import { appReducer, initialState, sameWorkspace, workspaceOf } from './state';
+import { readProject, toProject } from '../utils/project';
+import { loadAutosave, saveAutosave } from '../utils/persistence';
+
+// Wait for a pause in changes (drags, typing) before writing the autosave
+const AUTOSAVE_DELAY_MS = 1000;
+
+export const AppStoreProvider = ({ children }: { children: ReactNode }) => {
+    const [state, dispatch] = useReducer(appReducer, initialState);
+    const [restored, setRestored] = useState(false);
+
+    // The saved part of the state, kept as the same object while only hover and drag state change
+    const workspaceRef = useRef(workspaceOf(state));
+    const currentWorkspace = workspaceOf(state);
+    if (!sameWorkspace(workspaceRef.current, currentWorkspace)) workspaceRef.current = currentWorkspace;
+    const workspace = workspaceRef.current;
+
+    // Pick up where the last session left off
+    useEffect(() => {
+        loadAutosave()
+            .then(saved => {
+                if (saved) dispatch({ type: 'loadWorkspace', workspace: readProject(saved) });
+            })
+            .catch(error => console.warn('Could not restore the autosaved workspace:', error))
+            .finally(() => setRestored(true));
+    }, []);
+
+    // Saving before the restore finishes would overwrite it with the empty workspace
+    useEffect(() => {
+        if (!restored) return;
+        const timer = window.setTimeout(() => {
+            saveAutosave(toProject(workspace)).catch(error => console.warn('Could not autosave the workspace:', error));
+        }, AUTOSAVE_DELAY_MS);
+        return () => window.clearTimeout(timer);
+    }, [workspace, restored]);
+
+    return (
+        <AppStateContext.Provider value={state}>
+            <AppDispatchContext.Provider value={dispatch}>
+                {children}
+            </AppDispatchContext.Provider>
+        </AppStateContext.Provider>
+    );
+};
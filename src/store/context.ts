@@ -0,0 +1,8 @@
+import { createContext, Dispatch, useContext } from 'react';
+import { AppAction, AppState, initialState } from './state';
+
+export const AppStateContext = createContext<AppState>(initialState);
+export const AppDispatchContext = createContext<Dispatch<AppAction>>(() => {});
+
+export const useAppState = () => useContext(AppStateContext);
+export const useAppDispatch = () => useContext(AppDispatchContext);
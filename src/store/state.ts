@@ -0,0 +1,478 @@
+import { AxisLimits, DispersionImage, DragState, HoveredLine, Layer, Point } from '../types';
+import { ModelFileInfo } from '../utils/modelFile';
+import { Colormap, ImageNormalization } from '../utils/dispersionImage';
+import { UncertaintySettings } from '../utils/uncertainty';
+import { DEFAULT_CONSTRAINTS, ModelConstraints } from '../utils/constraints';
+import { ScaleType } from '../utils/scale';
+import { XDomain, convertLimits, toDomainX } from '../utils/xDomain';
+import { dataLimits, isValidLimits, sameLimits } from '../utils/viewport';
+
+export interface Selection {
+    hoveredPointIndex: number | null;
+    hoveredLine: HoveredLine | null;
+    dragState: DragState | null;
+}
+
+export interface HistoryEntry {
+    label: string;
+    layers: Layer[];
+}
+
+// entries[index] is the last committed layer model; later entries are redo steps
+export interface LayerHistory {
+    entries: HistoryEntry[];
+    index: number;
+}
+
+export interface AxisScales {
+    x: ScaleType;
+    y: ScaleType;
+}
+
+export type PlotId = 'left' | 'right';
+
+// Earlier views (most recent last) and views undone with "back"
+export interface ViewHistory {
+    back: AxisLimits[];
+    forward: AxisLimits[];
+}
+
+export interface ImageDisplay {
+    visible: boolean;
+    colormap: Colormap;
+    normalization: ImageNormalization;
+}
+
+/**
+ * One sounding site of a batch. The open site's data lives in the main
+ * state fields and is written back here when another site is opened.
+ */
+export interface Site {
+    name: string;
+    station: number;           // position along the survey line (m), for the cross-section
+    approved: boolean;
+    loadedPoints: Point[];     // as loaded, to tell edited sites apart
+    loadedLayers: Layer[];
+    points: Point[];
+    layers: Layer[];
+    history: LayerHistory;
+    modelFile: ModelFileInfo | null;
+    leftAxisLimits: AxisLimits;
+    leftXDomain: XDomain;      // units of leftAxisLimits
+    rightAxisLimits: AxisLimits;
+}
+
+export type SiteStatus = 'unedited' | 'edited' | 'approved';
+
+// A read-only model drawn over the editable one in RightPlot
+export interface ComparisonModel {
+    id: number;
+    name: string;
+    layers: Layer[];
+    visible: boolean;
+}
+
+export interface AppState {
+    points: Point[];
+    layers: Layer[];
+    leftAxisLimits: AxisLimits;
+    rightAxisLimits: AxisLimits;
+    leftAxisScales: AxisScales;
+    rightAxisScales: AxisScales;
+    viewHistory: Record<PlotId, ViewHistory>;
+    leftXDomain: XDomain;                 // leftAxisLimits.xmin/xmax are in this domain's units
+    pseudoDepthDivisor: number | null;    // wavelength divisor for the RightPlot pseudo-depth overlay, null when hidden
+    selection: Selection;
+    history: LayerHistory;
+    modelFile: ModelFileInfo | null;
+    dispersionImage: DispersionImage | null;
+    imageDisplay: ImageDisplay;
+    uncertaintySettings: UncertaintySettings;
+    constraints: ModelConstraints;
+    hiddenModes: number[];                // modes whose picks and curves LeftPlot hides
+    sites: Site[];
+    activeSite: number | null;            // index into sites of the open site
+    comparisonModels: ComparisonModel[];
+}
+
+// Everything worth keeping across sessions; the selection is transient
+export type Workspace = Omit<AppState, 'selection'>;
+
+export const workspaceOf = (state: AppState): Workspace => {
+    const workspace: Partial<AppState> = { ...state };
+    delete workspace.selection;
+    return workspace as Workspace;
+};
+
+/** Whether two workspaces hold the same objects field by field, as after a change to the selection only. */
+export const sameWorkspace = (a: Workspace, b: Workspace): boolean =>
+    (Object.keys(b) as (keyof Workspace)[]).every(key => a[key] === b[key]);
+
+const MAX_HISTORY_ENTRIES = 200;
+const MAX_VIEW_HISTORY = 50;
+
+// Plain-data actions only, so they can be logged, persisted or replayed
+export type AppAction =
+    | { type: 'setPoints'; points: Point[] }
+    | { type: 'addPoint'; point: Point }
+    | { type: 'movePoint'; index: number; point: Point }
+    | { type: 'deletePoints'; indices: number[] }
+    // With a label the change becomes an undo step; without one it is transient (e.g. mid-drag)
+    | { type: 'setLayers'; layers: Layer[]; label?: string }
+    | { type: 'endDrag' }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'jumpToHistory'; index: number }
+    | { type: 'setModelFile'; info: ModelFileInfo | null }
+    | { type: 'setDispersionImage'; image: DispersionImage | null }
+    | { type: 'setImageDisplay'; display: Partial<ImageDisplay> }
+    | { type: 'setUncertaintySettings'; settings: Partial<UncertaintySettings> }
+    | { type: 'setConstraints'; constraints: Partial<ModelConstraints> }
+    // Axis limits that are not finite or have min >= max are ignored
+    | { type: 'setLeftAxisLimits'; limits: AxisLimits }
+    | { type: 'setRightAxisLimits'; limits: AxisLimits }
+    | { type: 'setLeftAxisScales'; scales: Partial<AxisScales> }
+    | { type: 'setRightAxisScales'; scales: Partial<AxisScales> }
+    | { type: 'recordView'; plot: PlotId }
+    | { type: 'viewBack'; plot: PlotId }
+    | { type: 'viewForward'; plot: PlotId }
+    | { type: 'setLeftXDomain'; domain: XDomain }
+    | { type: 'setPseudoDepthDivisor'; divisor: number | null }
+    | { type: 'setHiddenModes'; modes: number[] }
+    | { type: 'loadWorkspace'; workspace: Workspace }
+    // Replaces the batch and opens its first site
+    | { type: 'loadSites'; sites: Site[] }
+    | { type: 'openSite'; index: number }
+    | { type: 'setSiteApproved'; index: number; approved: boolean }
+    | { type: 'setSiteStation'; index: number; station: number }
+    | { type: 'addComparisonModels'; models: { name: string; layers: Layer[] }[] }
+    | { type: 'removeComparisonModel'; id: number }
+    | { type: 'setComparisonVisible'; id: number; visible: boolean }
+    | { type: 'setHoveredPoint'; index: number | null }
+    | { type: 'setHoveredLine'; line: HoveredLine | null }
+    | { type: 'setDragState'; dragState: DragState | null };
+
+export const initialState: AppState = {
+    points: [],
+    layers: [],
+    leftAxisLimits: {
+        xmin: 0.016,  // Period min
+        xmax: 0.6,    // Period max
+        ymin: 30,     // Velocity min
+        ymax: 500     // Velocity max
+    },
+    rightAxisLimits: {
+        xmin: 50,
+        xmax: 1000,
+        ymin: 0.0,
+        ymax: 200.0,
+    },
+    // Period spans decades, so it starts logarithmic
+    leftAxisScales: { x: 'log', y: 'linear' },
+    rightAxisScales: { x: 'linear', y: 'linear' },
+    viewHistory: {
+        left: { back: [], forward: [] },
+        right: { back: [], forward: [] }
+    },
+    leftXDomain: 'period',
+    pseudoDepthDivisor: null,
+    selection: {
+        hoveredPointIndex: null,
+        hoveredLine: null,
+        dragState: null
+    },
+    history: {
+        entries: [{ label: 'Empty model', layers: [] }],
+        index: 0
+    },
+    modelFile: null,
+    dispersionImage: null,
+    imageDisplay: {
+        visible: true,
+        colormap: 'viridis',
+        normalization: 'frequency'
+    },
+    uncertaintySettings: {
+        display: 'bars',
+        units: 'absolute',
+        defaultModel: 'none',
+        fixedPercent: 5,
+        lowFrequencyPercent: 10,
+        highFrequencyPercent: 3
+    },
+    constraints: DEFAULT_CONSTRAINTS,
+    hiddenModes: [],
+    sites: [],
+    activeSite: null,
+    comparisonModels: []
+};
+
+const pushHistory = (history: LayerHistory, entry: HistoryEntry): LayerHistory => {
+    const entries = [...history.entries.slice(0, history.index + 1), entry].slice(-MAX_HISTORY_ENTRIES);
+    return { entries, index: entries.length - 1 };
+};
+
+const describeDrag = (dragState: DragState, layers: Layer[]): string => {
+    if (dragState.type === 'velocity') {
+        const layer = layers[dragState.layerIndex];
+        return `Set layer ${dragState.layerIndex + 1} velocity to ${layer.velocity.toFixed(1)} m/s`;
+    }
+    const depth = dragState.layerIndex < layers.length
+        ? layers[dragState.layerIndex].startDepth
+        : layers[layers.length - 1].endDepth;
+    return `Move boundary ${dragState.layerIndex + 1} to ${depth.toFixed(1)} m`;
+};
+
+const limitsKey = (plot: PlotId) => plot === 'left' ? 'leftAxisLimits' : 'rightAxisLimits';
+
+const stepView = (state: AppState, plot: PlotId, direction: 'back' | 'forward'): AppState => {
+    const history = state.viewHistory[plot];
+    const source = direction === 'back' ? history.back : history.forward;
+    if (source.length === 0) return state;
+
+    const current = state[limitsKey(plot)];
+    const target = source[source.length - 1];
+    const remaining = source.slice(0, -1);
+    const viewHistory = direction === 'back'
+        ? { back: remaining, forward: [...history.forward, current] }
+        : { back: [...history.back, current], forward: remaining };
+    return {
+        ...state,
+        [limitsKey(plot)]: target,
+        viewHistory: { ...state.viewHistory, [plot]: viewHistory }
+    };
+};
+
+/** The batch with the open site's current data written back into it. */
+export const currentSites = (state: AppState): Site[] => {
+    const { activeSite, sites } = state;
+    if (activeSite === null || !sites[activeSite]) return sites;
+    return sites.map((site, index) => index !== activeSite ? site : {
+        ...site,
+        points: state.points,
+        layers: state.layers,
+        history: state.history,
+        modelFile: state.modelFile,
+        leftAxisLimits: state.leftAxisLimits,
+        leftXDomain: state.leftXDomain,
+        rightAxisLimits: state.rightAxisLimits
+    });
+};
+
+// By value as well, since saved projects don't keep shared references
+// Picks and layers are replaced, never mutated, so a comparison holds for as long as both arrays live;
+// this keeps the status badges from re-serialising every site on each hover or drag render
+const sameDataCache = new WeakMap<object, WeakMap<object, boolean>>();
+
+const sameData = (a: object, b: object): boolean => {
+    if (a === b) return true;
+    let cached = sameDataCache.get(a);
+    if (!cached) {
+        cached = new WeakMap();
+        sameDataCache.set(a, cached);
+    }
+    let same = cached.get(b);
+    if (same === undefined) {
+        same = JSON.stringify(a) === JSON.stringify(b);
+        cached.set(b, same);
+    }
+    return same;
+};
+
+/** Whether the site's model has been edited since it was loaded. */
+export const isSiteEdited = (site: Site): boolean =>
+    !sameData(site.points, site.loadedPoints) || !sameData(site.layers, site.loadedLayers);
+
+export const siteStatus = (site: Site): SiteStatus =>
+    site.approved ? 'approved' : isSiteEdited(site) ? 'edited' : 'unedited';
+
+const openSite = (state: AppState, sites: Site[], index: number): AppState => {
+    const site = sites[index];
+    if (!site) return state;
+    const leftAxisLimits = convertLimits(site.leftAxisLimits, site.leftXDomain, state.leftXDomain);
+    return {
+        ...state,
+        sites,
+        activeSite: index,
+        points: site.points,
+        layers: site.layers,
+        history: site.history,
+        modelFile: site.modelFile,
+        leftAxisLimits: isValidLimits(leftAxisLimits) ? leftAxisLimits : state.leftAxisLimits,
+        rightAxisLimits: site.rightAxisLimits,
+        // Views of the previous site mean nothing here
+        viewHistory: initialState.viewHistory,
+        selection: initialState.selection
+    };
+};
+
+const restoreHistory = (state: AppState, index: number): AppState => ({
+    ...state,
+    layers: state.history.entries[index].layers,
+    history: { ...state.history, index },
+    selection: { ...state.selection, hoveredLine: null, dragState: null }
+});
+
+export const appReducer = (state: AppState, action: AppAction): AppState => {
+    switch (action.type) {
+        case 'setPoints':
+            // Indices into the old picks no longer mean anything
+            return {
+                ...state,
+                points: action.points,
+                selection: { ...state.selection, hoveredPointIndex: null }
+            };
+        case 'addPoint':
+            return { ...state, points: [...state.points, action.point] };
+        case 'movePoint':
+            // Indices are unchanged, so the hovered pick stays hovered while it is dragged
+            return {
+                ...state,
+                points: state.points.map((point, index) => index === action.index ? action.point : point)
+            };
+        case 'deletePoints': {
+            const removed = new Set(action.indices);
+            return {
+                ...state,
+                points: state.points.filter((_, index) => !removed.has(index)),
+                selection: { ...state.selection, hoveredPointIndex: null }
+            };
+        }
+        case 'setLayers':
+            if (action.label === undefined) {
+                return { ...state, layers: action.layers };
+            }
+            return {
+                ...state,
+                layers: action.layers,
+                history: pushHistory(state.history, { label: action.label, layers: action.layers })
+            };
+        case 'endDrag': {
+            // The whole gesture becomes a single undo step
+            const { dragState } = state.selection;
+            const selection = { ...state.selection, dragState: null };
+            if (!dragState || state.layers === state.history.entries[state.history.index].layers) {
+                return { ...state, selection };
+            }
+            return {
+                ...state,
+                selection,
+                history: pushHistory(state.history, {
+                    label: describeDrag(dragState, state.layers),
+                    layers: state.layers
+                })
+            };
+        }
+        case 'undo':
+            // An uncommitted change is discarded first
+            if (state.layers !== state.history.entries[state.history.index].layers) {
+                return restoreHistory(state, state.history.index);
+            }
+            return state.history.index > 0 ? restoreHistory(state, state.history.index - 1) : state;
+        case 'redo':
+            return state.history.index < state.history.entries.length - 1
+                ? restoreHistory(state, state.history.index + 1)
+                : state;
+        case 'jumpToHistory':
+            return action.index >= 0 && action.index < state.history.entries.length
+                ? restoreHistory(state, action.index)
+                : state;
+        case 'setModelFile':
+            return { ...state, modelFile: action.info };
+        case 'setDispersionImage':
+            return { ...state, dispersionImage: action.image };
+        case 'setImageDisplay':
+            return { ...state, imageDisplay: { ...state.imageDisplay, ...action.display } };
+        case 'setUncertaintySettings':
+            return { ...state, uncertaintySettings: { ...state.uncertaintySettings, ...action.settings } };
+        case 'setConstraints':
+            return { ...state, constraints: { ...state.constraints, ...action.constraints } };
+        case 'setLeftAxisLimits':
+            return isValidLimits(action.limits) ? { ...state, leftAxisLimits: action.limits } : state;
+        case 'setRightAxisLimits':
+            return isValidLimits(action.limits) ? { ...state, rightAxisLimits: action.limits } : state;
+        case 'recordView': {
+            const history = state.viewHistory[action.plot];
+            const current = state[limitsKey(action.plot)];
+            const last = history.back[history.back.length - 1];
+            if (last && sameLimits(last, current)) return state;
+            return {
+                ...state,
+                viewHistory: {
+                    ...state.viewHistory,
+                    [action.plot]: { back: [...history.back, current].slice(-MAX_VIEW_HISTORY), forward: [] }
+                }
+            };
+        }
+        case 'viewBack':
+            return stepView(state, action.plot, 'back');
+        case 'viewForward':
+            return stepView(state, action.plot, 'forward');
+        case 'setLeftXDomain': {
+            // Limits that don't convert fall back to the picks' extent; the old limits would be in the wrong units
+            const converted = convertLimits(state.leftAxisLimits, state.leftXDomain, action.domain);
+            const leftAxisLimits = isValidLimits(converted)
+                ? converted
+                : dataLimits(state.points.map(point => toDomainX(action.domain, point.x, point.y)), state.points.map(point => point.y));
+            if (!leftAxisLimits || !isValidLimits(leftAxisLimits)) return state;
+            return {
+                ...state,
+                leftXDomain: action.domain,
+                leftAxisLimits,
+                // Earlier views are in the old domain's units
+                viewHistory: { ...state.viewHistory, left: { back: [], forward: [] } }
+            };
+        }
+        case 'setPseudoDepthDivisor':
+            return { ...state, pseudoDepthDivisor: action.divisor };
+        case 'setLeftAxisScales':
+            return { ...state, leftAxisScales: { ...state.leftAxisScales, ...action.scales } };
+        case 'setRightAxisScales':
+            return { ...state, rightAxisScales: { ...state.rightAxisScales, ...action.scales } };
+        case 'setHiddenModes':
+            return { ...state, hiddenModes: action.modes };
+        case 'loadWorkspace':
+            return { ...action.workspace, selection: initialState.selection };
+        case 'loadSites':
+            return action.sites.length > 0
+                ? openSite(state, action.sites, 0)
+                : { ...state, sites: [], activeSite: null };
+        case 'openSite':
+            return action.index === state.activeSite ? state : openSite(state, currentSites(state), action.index);
+        case 'setSiteApproved':
+            return {
+                ...state,
+                sites: state.sites.map((site, index) => index === action.index ? { ...site, approved: action.approved } : site)
+            };
+        case 'setSiteStation':
+            return {
+                ...state,
+                sites: state.sites.map((site, index) => index === action.index ? { ...site, station: action.station } : site)
+            };
+        case 'addComparisonModels': {
+            const firstId = Math.max(0, ...state.comparisonModels.map(model => model.id)) + 1;
+            return {
+                ...state,
+                comparisonModels: [
+                    ...state.comparisonModels,
+                    ...action.models.map((model, i) => ({ ...model, id: firstId + i, visible: true }))
+                ]
+            };
+        }
+        case 'removeComparisonModel':
+            return { ...state, comparisonModels: state.comparisonModels.filter(model => model.id !== action.id) };
+        case 'setComparisonVisible':
+            return {
+                ...state,
+                comparisonModels: state.comparisonModels.map(model => model.id === action.id ? { ...model, visible: action.visible } : model)
+            };
+        case 'setHoveredPoint':
+            return { ...state, selection: { ...state.selection, hoveredPointIndex: action.index } };
+        case 'setHoveredLine':
+            return { ...state, selection: { ...state.selection, hoveredLine: action.line } };
+        case 'setDragState':
+            return { ...state, selection: { ...state.selection, dragState: action.dragState } };
+        default:
+            return state;
+    }
+};
@@ -9,4 +9,61 @@ export interface LayerData {
 export interface Point {
     x: number;
     y: number;
-} 
\ No newline at end of file
+    uncertainty?: number;
+    mode?: number;      // 0 (or absent) is the fundamental mode
+    source?: string;    // file or tool the pick came from
+}
+
+// A data row as it appeared in an imported model file
+export interface SourceRow {
+    text: string;
+    data: LayerData;
+    before?: string[];   // comment or blank lines between the previous data row and this one
+}
+
+// Either end may be left open
+export interface Bounds {
+    min: number | null;
+    max: number | null;
+}
+
+export interface Layer {
+    startDepth: number;
+    endDepth: number;
+    velocity: number;
+    density: number;
+    vp: number;
+    vsBounds?: Bounds;   // user limits on this layer's Vs; they travel with it through edits and undo
+    source?: {
+        top: SourceRow;
+        bottom: SourceRow;
+    };
+}
+
+export interface AxisLimits {
+    xmin: number;
+    xmax: number;
+    ymin: number;
+    ymax: number;
+}
+
+export interface HoveredLine {
+    type: 'depth' | 'velocity';
+    value: number;
+    y?: number;
+    x?: number;
+    layerIndex?: number;   // layer whose velocity line is hovered
+}
+
+export interface DragState {
+    layerIndex: number;
+    type: 'boundary' | 'velocity';
+    isDragging: boolean;
+}
+
+// Frequency-velocity spectrum, row-major [velocity][frequency]
+export interface DispersionImage {
+    frequencies: number[];   // Hz, one per column
+    velocities: number[];    // m/s, one per row
+    power: Float64Array;
+}
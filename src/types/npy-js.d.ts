@@ -1,7 +0,0 @@
-declare module 'npy-js' {
-  export function readNpy(buffer: ArrayBuffer): {
-    data: Uint8Array | Float32Array | Float64Array;
-    shape: number[];
-    dtype: string;
-  };
-} 
\ No newline at end of file
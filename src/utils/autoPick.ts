@@ -0,0 +1,101 @@
+import { DispersionImage, Point } from '../types';
+import { nearestIndex } from './dispersionImage';
+
+export interface RidgeTrackingOptions {
+    seed: Point;            // period / velocity the track starts from
+    minFrequency: number;
+    maxFrequency: number;
+    maxJump: number;        // largest velocity change between neighbouring frequencies, as a fraction
+}
+
+interface Peak {
+    index: number;
+    uncertainty: number;
+}
+
+// Fraction of the peak power that bounds the width used for the uncertainty
+const PEAK_WIDTH_LEVEL = 0.5;
+
+/**
+ * Half of the peak's width at PEAK_WIDTH_LEVEL of its power, interpolated
+ * between velocity samples. A peak running off the axis is measured on the
+ * side that stays inside.
+ */
+const peakHalfWidth = (column: (v: number) => number, velocities: number[], index: number): number => {
+    const level = column(index) * PEAK_WIDTH_LEVEL;
+
+    const crossing = (step: 1 | -1): number | null => {
+        for (let v = index + step; v >= 0 && v < velocities.length; v += step) {
+            if (column(v) <= level) {
+                const previous = v - step;
+                const t = (column(previous) - level) / (column(previous) - column(v));
+                return velocities[previous] + t * (velocities[v] - velocities[previous]);
+            }
+        }
+        return null;
+    };
+
+    const above = crossing(1);
+    const below = crossing(-1);
+    if (above !== null && below !== null) return Math.abs(above - below) / 2;
+    if (above !== null) return Math.abs(above - velocities[index]);
+    if (below !== null) return Math.abs(velocities[index] - below);
+    return Math.abs(velocities[velocities.length - 1] - velocities[0]) / 2;
+};
+
+const findPeak = (
+    image: DispersionImage,
+    frequencyIndex: number,
+    minVelocity: number,
+    maxVelocity: number
+): Peak | null => {
+    const nf = image.frequencies.length;
+    const column = (v: number) => image.power[v * nf + frequencyIndex];
+
+    let best: number | null = null;
+    image.velocities.forEach((velocity, v) => {
+        if (velocity < minVelocity || velocity > maxVelocity) return;
+        if (best === null || column(v) > column(best)) best = v;
+    });
+    if (best === null || !(column(best) > 0)) return null;
+
+    return { index: best, uncertainty: peakHalfWidth(column, image.velocities, best) };
+};
+
+/**
+ * Follow the spectral ridge through the seed point across the frequency
+ * range. At each frequency the pick is the strongest sample within maxJump
+ * of the previous pick; tracking stops in a direction once no such sample
+ * has power. Picks come back ordered by period.
+ */
+export const trackRidge = (image: DispersionImage, options: RidgeTrackingOptions): Point[] => {
+    const { seed, minFrequency, maxFrequency, maxJump } = options;
+    const inRange = (f: number) => f >= minFrequency && f <= maxFrequency;
+
+    const seedIndex = nearestIndex(image.frequencies, 1 / seed.x);
+    if (!inRange(image.frequencies[seedIndex])) return [];
+
+    const seedPeak = findPeak(image, seedIndex, seed.y * (1 - maxJump), seed.y * (1 + maxJump));
+    if (!seedPeak) return [];
+
+    const toPoint = (frequencyIndex: number, peak: Peak): Point => ({
+        x: 1 / image.frequencies[frequencyIndex],
+        y: image.velocities[peak.index],
+        uncertainty: Number(peak.uncertainty.toPrecision(3))
+    });
+
+    const picks: Point[] = [toPoint(seedIndex, seedPeak)];
+
+    for (const step of [1, -1]) {
+        let velocity = image.velocities[seedPeak.index];
+        for (let f = seedIndex + step; f >= 0 && f < image.frequencies.length; f += step) {
+            if (!inRange(image.frequencies[f])) break;
+            const peak = findPeak(image, f, velocity * (1 - maxJump), velocity * (1 + maxJump));
+            if (!peak) break;
+            picks.push(toPoint(f, peak));
+            velocity = image.velocities[peak.index];
+        }
+    }
+
+    return picks.sort((a, b) => a.x - b.x);
+};
@@ -0,0 +1,93 @@
+import { Point } from '../types';
+import { Site, initialState } from '../store/state';
+import { ParsedModelFile, parseModelFile } from './modelFile';
+import { parsePicks } from './pickImport';
+import { dataLimits, layerLimits } from './viewport';
+
+export type BatchFileKind = 'picks' | 'model';
+
+// Name parts that say what a file holds; removed to get the site name
+const PICKS_PATTERN = /[-_. ]?(picks?|dispersion|disp|curve|dc)$/i;
+const MODEL_PATTERN = /[-_. ]?(model|layers?|vs)$/i;
+
+export interface BatchResult {
+    sites: Site[];
+    skipped: string[];   // file names that were neither picks nor a model, with the reason
+}
+
+/** Station from the last number in a site name (e.g. "L1_S120" is at 120), else the site's position in the batch. */
+export const defaultStation = (name: string, index: number): number => {
+    const match = name.match(/(\d+(?:\.\d+)?)\D*$/);
+    return match ? Number(match[1]) : index;
+};
+
+const baseName = (fileName: string) => fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '');
+
+/**
+ * Site name and contents of a file: a "picks" / "model" style suffix
+ * decides, then the extension (.csv / .tsv are picks), then whether the
+ * text reads as a layer model.
+ */
+export const classifyBatchFile = (fileName: string, text: string): { site: string; kind: BatchFileKind } => {
+    const base = baseName(fileName);
+    if (PICKS_PATTERN.test(base)) return { site: base.replace(PICKS_PATTERN, ''), kind: 'picks' };
+    if (MODEL_PATTERN.test(base)) return { site: base.replace(MODEL_PATTERN, ''), kind: 'model' };
+    if (/\.(csv|tsv)$/i.test(fileName)) return { site: base, kind: 'picks' };
+    return { site: base, kind: parseModelFile(text, fileName).layers.length > 0 ? 'model' : 'picks' };
+};
+
+const createSite = (name: string, index: number, points: Point[], model: ParsedModelFile | null): Site => {
+    const layers = model?.layers ?? [];
+    return {
+        name,
+        station: defaultStation(name, index),
+        approved: false,
+        loadedPoints: points,
+        loadedLayers: layers,
+        points,
+        layers,
+        history: { entries: [{ label: model ? `Load ${model.info.name}` : 'Empty model', layers }], index: 0 },
+        modelFile: model?.info ?? null,
+        leftAxisLimits: dataLimits(points.map(p => p.x), points.map(p => p.y)) ?? initialState.leftAxisLimits,
+        leftXDomain: 'period',
+        rightAxisLimits: layerLimits(layers) ?? initialState.rightAxisLimits
+    };
+};
+
+/**
+ * Group dropped files into sites by name, pairing each site's picks with
+ * its layer model. Picks use the automatically detected columns.
+ */
+export const buildSites = (files: { name: string; text: string }[]): BatchResult => {
+    const bySite = new Map<string, { points: Point[] | null; model: ParsedModelFile | null }>();
+    const skipped: string[] = [];
+
+    files.forEach(({ name, text }) => {
+        const { site, kind } = classifyBatchFile(name, text);
+        const entry = bySite.get(site) ?? { points: null, model: null };
+
+        if (kind === 'model') {
+            const model = parseModelFile(text, name);
+            if (model.layers.length === 0) {
+                skipped.push(`${name}: no layer rows`);
+                return;
+            }
+            if (entry.model) skipped.push(`${name}: ${site} already has a model`);
+            else entry.model = model;
+        } else {
+            const points = parsePicks(text).points;
+            if (points.length === 0) {
+                skipped.push(`${name}: no picks found`);
+                return;
+            }
+            // Several pick files for one site (e.g. one per mode) are combined
+            entry.points = [...(entry.points ?? []), ...points.map(point => ({ ...point, source: point.source ?? name }))];
+        }
+        bySite.set(site, entry);
+    });
+
+    const sites = [...bySite.entries()]
+        .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+        .map(([name, { points, model }], index) => createSite(name, index, points ?? [], model));
+    return { sites, skipped };
+};
@@ -0,0 +1,165 @@
+import { Bounds, Layer } from '../types';
+
+export type RatioKind = 'vpVs' | 'poisson';
+
+export interface ModelConstraints {
+    minThickness: number;          // m, also the closest a drag brings two boundaries
+    maxThickness: number | null;   // m
+    velocity: Bounds;              // Vs of every layer, on top of each layer's own vsBounds
+    monotonic: boolean;            // Vs may not decrease with depth
+    ratioKind: RatioKind;          // how ratio is expressed
+    ratio: Bounds;                 // Vp/Vs or Poisson's ratio from each layer's Vp column
+    depthStep: number | null;      // m, grid that dragged boundaries snap to
+    velocityStep: number | null;   // m/s, grid that dragged velocities snap to
+}
+
+export const NO_BOUNDS: Bounds = { min: null, max: null };
+
+export const DEFAULT_CONSTRAINTS: ModelConstraints = {
+    minThickness: 0.1,
+    maxThickness: null,
+    velocity: NO_BOUNDS,
+    monotonic: false,
+    ratioKind: 'vpVs',
+    ratio: NO_BOUNDS,
+    depthStep: null,
+    velocityStep: null,
+};
+
+export interface Violation {
+    layerIndex: number;
+    message: string;
+}
+
+const thickness = (layer: Layer) => layer.endDepth - layer.startDepth;
+
+// Vp/Vs = sqrt((2 - 2ν) / (1 - 2ν)), rising with ν and unbounded at 0.5
+const poissonToVpVs = (poisson: number) => poisson >= 0.5 ? Infinity : Math.sqrt((2 - 2 * poisson) / (1 - 2 * poisson));
+const vpVsToPoisson = (ratio: number) => (ratio * ratio - 2) / (2 * (ratio * ratio - 1));
+
+/** Allowed Vp/Vs range, whichever way the limits are expressed. */
+const vpVsRange = (constraints: ModelConstraints): [number, number] => {
+    const { min, max } = constraints.ratio;
+    const convert = constraints.ratioKind === 'poisson' ? poissonToVpVs : (ratio: number) => ratio;
+    return [min !== null ? convert(min) : 0, max !== null ? convert(max) : Infinity];
+};
+
+/**
+ * Vs range a layer may take under the bounds, the monotonic rule against
+ * its neighbours and the ratio limits against its own Vp. Rules that
+ * contradict each other give an empty range (low above high).
+ */
+export const velocityRange = (layers: Layer[], index: number, constraints: ModelConstraints): [number, number] => {
+    const layer = layers[index];
+    const own = layer.vsBounds ?? NO_BOUNDS;
+    const lows = [0, constraints.velocity.min, own.min];
+    const highs = [Infinity, constraints.velocity.max, own.max];
+
+    if (constraints.monotonic) {
+        lows.push(layers[index - 1]?.velocity ?? null);
+        highs.push(layers[index + 1]?.velocity ?? null);
+    }
+    if (layer.vp > 0) {
+        const [lowRatio, highRatio] = vpVsRange(constraints);
+        lows.push(layer.vp / highRatio);
+        highs.push(layer.vp / lowRatio);
+    }
+
+    return [
+        Math.max(...lows.filter((value): value is number => value !== null)),
+        Math.min(...highs.filter((value): value is number => value !== null)),
+    ];
+};
+
+/**
+ * Depth range of a boundary, numbered 0 (top) to layers.length (bottom),
+ * keeping the layers on either side within the thickness limits. Falls
+ * back to the minimum thickness alone when a neighbour already breaks them.
+ */
+export const boundaryRange = (layers: Layer[], boundary: number, constraints: ModelConstraints): [number, number] => {
+    const above = layers[boundary - 1];
+    const below = layers[boundary];
+    const { minThickness } = constraints;
+    const maxThickness = constraints.maxThickness ?? Infinity;
+
+    const low = Math.max(
+        above ? above.startDepth + minThickness : -Infinity,
+        below ? below.endDepth - maxThickness : -Infinity
+    );
+    const high = Math.min(
+        below ? below.endDepth - minThickness : Infinity,
+        above ? above.startDepth + maxThickness : Infinity
+    );
+    if (low <= high) return [low, high];
+
+    return [
+        above ? above.startDepth + minThickness : -Infinity,
+        below ? below.endDepth - minThickness : Infinity,
+    ];
+};
+
+/**
+ * Clamp a dragged value into a range, on the grid where the grid has a
+ * point inside it. A value already outside the range may move anywhere
+ * between where it is and the range, so pressing a handle doesn't make it
+ * jump; when the rules leave no range at all it stays put and the
+ * violation list explains why.
+ */
+export const snapWithin = (value: number, range: [number, number], step: number | null, current: number): number => {
+    if (range[0] > range[1]) return current;
+    const low = Math.min(range[0], current);
+    const high = Math.max(range[1], current);
+    const clamped = Math.max(low, Math.min(high, value));
+    if (!step || !(step > 0)) return clamped;
+
+    let snapped = Math.round(clamped / step) * step;
+    if (snapped < low) snapped += step;
+    if (snapped > high) snapped -= step;
+    return snapped >= low && snapped <= high ? snapped : clamped;
+};
+
+const formatNumber = (value: number) => Number(value.toFixed(3)).toString();
+
+/** Every layer that breaks a rule, with a sentence saying how. */
+export const findViolations = (layers: Layer[], constraints: ModelConstraints): Violation[] => {
+    const violations: Violation[] = [];
+    const [lowRatio, highRatio] = vpVsRange(constraints);
+    const ratioName = constraints.ratioKind === 'poisson' ? "Poisson's ratio" : 'Vp/Vs';
+
+    layers.forEach((layer, index) => {
+        const add = (message: string) => violations.push({ layerIndex: index, message });
+        const h = thickness(layer);
+        if (h < constraints.minThickness) {
+            add(`${formatNumber(h)} m thick, under the ${formatNumber(constraints.minThickness)} m minimum`);
+        }
+        if (constraints.maxThickness !== null && h > constraints.maxThickness) {
+            add(`${formatNumber(h)} m thick, over the ${formatNumber(constraints.maxThickness)} m maximum`);
+        }
+
+        const own = layer.vsBounds ?? NO_BOUNDS;
+        [constraints.velocity, own].forEach(({ min, max }, i) => {
+            const scope = i === 0 ? '' : ' for this layer';
+            if (min !== null && layer.velocity < min) add(`Vs ${formatNumber(layer.velocity)} m/s is under the ${formatNumber(min)} m/s minimum${scope}`);
+            if (max !== null && layer.velocity > max) add(`Vs ${formatNumber(layer.velocity)} m/s is over the ${formatNumber(max)} m/s maximum${scope}`);
+        });
+
+        const previous = layers[index - 1];
+        if (constraints.monotonic && previous && layer.velocity < previous.velocity) {
+            add(`Vs ${formatNumber(layer.velocity)} m/s is slower than the ${formatNumber(previous.velocity)} m/s above it`);
+        }
+
+        if (constraints.ratio.min !== null || constraints.ratio.max !== null) {
+            const ratio = layer.vp / layer.velocity;
+            if (!(layer.vp > 0) || !(layer.velocity > 0)) {
+                add(`no Vp to check ${ratioName} against`);
+            } else if (ratio < lowRatio || ratio > highRatio) {
+                const value = constraints.ratioKind === 'poisson' ? vpVsToPoisson(ratio) : ratio;
+                const { min, max } = constraints.ratio;
+                const limits = `${min !== null ? formatNumber(min) : '–'} to ${max !== null ? formatNumber(max) : '–'}`;
+                add(`${ratioName} ${value.toFixed(3)} is outside ${limits}`);
+            }
+        }
+    });
+
+    return violations;
+};
@@ -0,0 +1,102 @@
+import { Layer } from '../types';
+import { Colormap, colormapColor } from './dispersionImage';
+import { Scale } from './scale';
+
+/** A site's model placed along the line. */
+export interface SectionColumn {
+    siteIndex: number;
+    station: number;
+    layers: Layer[];
+}
+
+/** Vs at a depth: the layer containing it, the half-space below the model, the top layer above it. */
+export const velocityAt = (layers: Layer[], depth: number): number => {
+    if (layers.length === 0) return NaN;
+    const layer = layers.find(l => depth >= l.startDepth && depth < l.endDepth);
+    if (layer) return layer.velocity;
+    return depth < layers[0].startDepth ? layers[0].velocity : layers[layers.length - 1].velocity;
+};
+
+/** Vs range over every layer of the columns, for the colour scale. */
+export const velocityRange = (columns: SectionColumn[]): [number, number] => {
+    const velocities = columns.flatMap(column => column.layers.map(layer => layer.velocity));
+    if (velocities.length === 0) return [0, 1];
+    const min = Math.min(...velocities);
+    const max = Math.max(...velocities);
+    return max > min ? [min, max] : [min - 1, max + 1];
+};
+
+/**
+ * Station range each column owns when drawing its boundaries: halfway to
+ * its neighbours, and as far again as that beyond the first and last.
+ * Columns must be sorted by station.
+ */
+export const columnExtents = (columns: SectionColumn[], fallbackHalfWidth: number): [number, number][] =>
+    columns.map((column, i) => {
+        const left = i > 0 ? (columns[i - 1].station + column.station) / 2 : NaN;
+        const right = i < columns.length - 1 ? (column.station + columns[i + 1].station) / 2 : NaN;
+        const halfWidth = !isNaN(left) ? column.station - left : !isNaN(right) ? right - column.station : fallbackHalfWidth;
+        return [isNaN(left) ? column.station - halfWidth : left, isNaN(right) ? column.station + halfWidth : right];
+    });
+
+/**
+ * Rasterise the section through the plot scales: Vs interpolated linearly
+ * between the two nearest columns at each depth, and held constant beyond
+ * the first and last. Columns must be sorted by station.
+ */
+export const renderSectionCanvas = (
+    columns: SectionColumn[],
+    xScale: Scale,
+    yScale: Scale,
+    range: [number, number],
+    colormap: Colormap
+): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(Math.abs(xScale.rangeEnd - xScale.rangeStart)));
+    canvas.height = Math.max(1, Math.round(Math.abs(yScale.rangeEnd - yScale.rangeStart)));
+    const context = canvas.getContext('2d');
+    if (!context || columns.length === 0) return canvas;
+
+    const lut = Array.from({ length: 256 }, (_, i) => colormapColor(colormap, i / 255));
+    const pixels = context.createImageData(canvas.width, canvas.height);
+    const depths = Array.from({ length: canvas.height }, (_, py) => yScale.fromScreen(py + 0.5));
+    // Each column's Vs per pixel row, shared by every pixel column that uses it
+    const profiles = columns.map(column => depths.map(depth => velocityAt(column.layers, depth)));
+
+    for (let px = 0; px < canvas.width; px++) {
+        const station = xScale.fromScreen(px + 0.5);
+        // First column at or past this station; its predecessor is strictly before it
+        const right = columns.findIndex(column => column.station >= station);
+        let [i0, i1, weight] = [right, right, 0];
+        if (right < 0) {
+            i0 = i1 = columns.length - 1;
+        } else if (right > 0) {
+            i0 = right - 1;
+            weight = (station - columns[i0].station) / (columns[i1].station - columns[i0].station);
+        }
+
+        for (let py = 0; py < canvas.height; py++) {
+            const velocity = profiles[i0][py] * (1 - weight) + profiles[i1][py] * weight;
+            if (isNaN(velocity)) continue;
+            const level = Math.min(1, Math.max(0, (velocity - range[0]) / (range[1] - range[0])));
+            const [r, g, b] = lut[Math.round(level * 255)];
+            const offset = (py * canvas.width + px) * 4;
+            pixels.data[offset] = r;
+            pixels.data[offset + 1] = g;
+            pixels.data[offset + 2] = b;
+            pixels.data[offset + 3] = 255;
+        }
+    }
+
+    context.putImageData(pixels, 0, 0);
+    return canvas;
+};
+
+/** CSS gradient of a colormap, left (low) to right (high), for colour bars. */
+export const colormapGradient = (colormap: Colormap): string => {
+    const stops = Array.from({ length: 11 }, (_, i) => {
+        const [r, g, b] = colormapColor(colormap, i / 10);
+        return `rgb(${r}, ${g}, ${b}) ${i * 10}%`;
+    });
+    return `linear-gradient(to right, ${stops.join(', ')})`;
+};
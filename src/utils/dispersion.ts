@@ -0,0 +1,222 @@
+import { Layer, Point } from '../types';
+import { ScaleType } from './scale';
+
+// Fallbacks for layers whose file rows carry no usable density / Vp
+const DEFAULT_DENSITY = 2.0;
+const DEFAULT_VP_VS_RATIO = Math.sqrt(3);
+
+// Root search: geometric scan from just below the slowest Vs up to the half-space Vs
+const SCAN_START_RATIO = 0.85;
+const SCAN_STEP_RATIO = 1.005;
+const BISECTION_ITERATIONS = 40;
+
+export interface ElasticLayer {
+    thickness: number;
+    vp: number;
+    vs: number;
+    density: number;
+}
+
+interface LayerFunctions {
+    cosh: number;      // cosh(k·r·h)
+    rSinh: number;     // r·sinh(k·r·h)
+    sinhOverR: number; // sinh(k·r·h) / r
+    shift: number;     // exponent factored out of the three values above
+}
+
+/**
+ * Convert the plotted layers into an elastic model, sorted by depth.
+ * The deepest layer is treated as the half-space.
+ */
+export const toElasticModel = (layers: Layer[]): ElasticLayer[] => {
+    return [...layers]
+        .sort((a, b) => a.startDepth - b.startDepth)
+        .map(layer => {
+            const vs = layer.velocity;
+            const vp = layer.vp > vs ? layer.vp : vs * DEFAULT_VP_VS_RATIO;
+            const density = layer.density > 0 ? layer.density : DEFAULT_DENSITY;
+            return { thickness: layer.endDepth - layer.startDepth, vp, vs, density };
+        });
+};
+
+// Hyperbolic layer terms for r² = 1 - c²/v², switching to the trigonometric
+// form when r is imaginary. Real exponentials are scaled by e^-krh so thick
+// layers don't overflow.
+const layerFunctions = (r2: number, kh: number): LayerFunctions => {
+    if (r2 > 0) {
+        const r = Math.sqrt(r2);
+        const x = kh * r;
+        const decay = Math.exp(-2 * x);
+        const sinh = (1 - decay) / 2;
+        return { cosh: (1 + decay) / 2, rSinh: r * sinh, sinhOverR: sinh / r, shift: x };
+    }
+    if (r2 < 0) {
+        const r = Math.sqrt(-r2);
+        const x = kh * r;
+        const sin = Math.sin(x);
+        return { cosh: Math.cos(x), rSinh: -r * sin, sinhOverR: sin / r, shift: 0 };
+    }
+    return { cosh: 1, rSinh: 0, sinhOverR: kh, shift: 0 };
+};
+
+/**
+ * Rayleigh-wave secular function from the fast delta matrix algorithm
+ * (Buchen & Ben-Hador, 1996). Only its sign is meaningful: the overall
+ * scale is renormalised at every layer.
+ */
+const secularFunction = (model: ElasticLayer[], c: number, omega: number): number => {
+    const k = omega / c;
+    const c2 = c * c;
+
+    const top = model[0];
+    const t = 2 - c2 / (top.vs * top.vs);
+    let x1 = 2 * t;
+    let x2 = -t * t;
+    let x3 = 0;
+    let x4 = 0;
+    let x5 = -4;
+
+    for (let m = 0; m < model.length - 1; m++) {
+        const layer = model[m];
+        const next = model[m + 1];
+
+        const alpha = layerFunctions(1 - c2 / (layer.vp * layer.vp), k * layer.thickness);
+        const beta = layerFunctions(1 - c2 / (layer.vs * layer.vs), k * layer.thickness);
+
+        const epsilon = next.density / layer.density;
+        const eta = 2 * (layer.vs * layer.vs - epsilon * next.vs * next.vs) / c2;
+        const a = epsilon + eta;
+        const a1 = a - 1;
+        const b = 1 - eta;
+        const b1 = b - 1;
+
+        const p1 = beta.cosh * x2 + beta.rSinh * x3;
+        const p2 = beta.cosh * x4 + beta.rSinh * x5;
+        const p3 = beta.sinhOverR * x2 + beta.cosh * x3;
+        const p4 = beta.sinhOverR * x4 + beta.cosh * x5;
+
+        const q1 = alpha.cosh * p1 - alpha.rSinh * p2;
+        const q2 = -alpha.sinhOverR * p3 + alpha.cosh * p4;
+        const q3 = alpha.cosh * p3 - alpha.rSinh * p4;
+        const q4 = -alpha.sinhOverR * p1 + alpha.cosh * p2;
+
+        // x1 skips the layer terms, so it carries the factored-out exponent
+        const s1 = x1 * Math.exp(-(alpha.shift + beta.shift));
+        const y1 = a1 * s1 + a * q1;
+        const y2 = a * s1 + a1 * q2;
+        const z1 = b * s1 + b1 * q1;
+        const z2 = b1 * s1 + b * q2;
+
+        x1 = b1 * y1 + b * y2;
+        x2 = a * y1 + a1 * y2;
+        x3 = epsilon * q3;
+        x4 = epsilon * q4;
+        x5 = b1 * z1 + b * z2;
+
+        const norm = Math.max(Math.abs(x1), Math.abs(x2), Math.abs(x3), Math.abs(x4), Math.abs(x5));
+        if (norm > 0) {
+            x1 /= norm;
+            x2 /= norm;
+            x3 /= norm;
+            x4 /= norm;
+            x5 /= norm;
+        }
+    }
+
+    const halfSpace = model[model.length - 1];
+    const r = Math.sqrt(1 - c2 / (halfSpace.vp * halfSpace.vp));
+    const s = Math.sqrt(1 - c2 / (halfSpace.vs * halfSpace.vs));
+    return x2 + s * x3 - r * (x4 + s * x5);
+};
+
+/**
+ * Rayleigh phase velocity of the given mode (0 = fundamental) at one period,
+ * or NaN when the mode has no root below the half-space shear velocity.
+ * Higher modes are the later roots of the same scan.
+ */
+export const rayleighPhaseVelocity = (model: ElasticLayer[], period: number, mode = 0): number => {
+    if (model.length === 0 || !(period > 0)) return NaN;
+
+    const omega = (2 * Math.PI) / period;
+    const minVs = Math.min(...model.map(layer => layer.vs));
+    const cMax = model[model.length - 1].vs * (1 - 1e-9);
+
+    let cLow = minVs * SCAN_START_RATIO;
+    let fLow = secularFunction(model, cLow, omega);
+    if (fLow === 0 && mode === 0) return cLow;
+    let rootsPassed = 0;
+
+    while (cLow < cMax) {
+        const cHigh = Math.min(cLow * SCAN_STEP_RATIO, cMax);
+        const fHigh = secularFunction(model, cHigh, omega);
+
+        const bracketsRoot = fLow !== 0 && Math.sign(fLow) !== Math.sign(fHigh);
+        if (bracketsRoot && rootsPassed < mode) {
+            rootsPassed++;
+        } else if (bracketsRoot) {
+            let lo = cLow;
+            let hi = cHigh;
+            let fLo = fLow;
+            for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+                const mid = (lo + hi) / 2;
+                const fMid = secularFunction(model, mid, omega);
+                if (Math.sign(fMid) === Math.sign(fLo)) {
+                    lo = mid;
+                    fLo = fMid;
+                } else {
+                    hi = mid;
+                }
+            }
+            return (lo + hi) / 2;
+        }
+
+        cLow = cHigh;
+        fLow = fHigh;
+    }
+
+    return NaN;
+};
+
+/**
+ * Modeled phase velocity at each of the given periods (NaN where the
+ * solver finds no root), for the matching entry of `modes` or the
+ * fundamental mode.
+ */
+export const computePhaseVelocities = (layers: Layer[], periods: number[], modes?: number[]): number[] => {
+    if (layers.length === 0) return periods.map(() => NaN);
+
+    const model = toElasticModel(layers);
+    return periods.map((period, index) => rayleighPhaseVelocity(model, period, modes?.[index] ?? 0));
+};
+
+/**
+ * Theoretical dispersion curve for the layer model, sampled at `count`
+ * periods across [periodMin, periodMax], evenly spaced on a linear or log
+ * period axis. Points are period (x) / phase velocity (y), matching the
+ * picked data.
+ */
+export const computeDispersionCurve = (
+    layers: Layer[],
+    periodMin: number,
+    periodMax: number,
+    count = 80,
+    mode = 0,
+    spacing: ScaleType = 'linear'
+): Point[] => {
+    if (layers.length === 0 || !(periodMax > periodMin)) return [];
+
+    const model = toElasticModel(layers);
+    const curve: Point[] = [];
+    for (let i = 0; i < count; i++) {
+        const t = i / (count - 1);
+        const period = spacing === 'log' && periodMin > 0
+            ? periodMin * Math.pow(periodMax / periodMin, t)
+            : periodMin + t * (periodMax - periodMin);
+        if (period <= 0) continue;
+        const velocity = rayleighPhaseVelocity(model, period, mode);
+        if (!isNaN(velocity)) {
+            curve.push({ x: period, y: velocity, mode });
+        }
+    }
+    return curve;
+};
@@ -0,0 +1,231 @@
+import npyjs from 'npyjs';
+import { AxisLimits, DispersionImage } from '../types';
+import { Scale } from './scale';
+import { XDomain, fromDomainX } from './xDomain';
+
+export type Colormap = 'viridis' | 'inferno' | 'jet' | 'gray';
+export type ImageNormalization = 'frequency' | 'global' | 'log';
+
+export const COLORMAPS: Colormap[] = ['viridis', 'inferno', 'jet', 'gray'];
+export const NORMALIZATIONS: { value: ImageNormalization; label: string }[] = [
+    { value: 'frequency', label: 'Per-frequency max' },
+    { value: 'global', label: 'Global max' },
+    { value: 'log', label: 'Log (global)' },
+];
+
+// Decades of power shown by the log normalization
+const LOG_DYNAMIC_RANGE = 3;
+
+// Evenly spaced colour stops, interpolated linearly
+const COLORMAP_STOPS: Record<Colormap, [number, number, number][]> = {
+    viridis: [[68, 1, 84], [72, 40, 120], [62, 74, 137], [49, 104, 142], [38, 130, 142], [31, 158, 137], [53, 183, 121], [109, 205, 89], [180, 222, 44], [253, 231, 37]],
+    inferno: [[0, 0, 4], [31, 12, 72], [85, 15, 109], [136, 34, 106], [186, 54, 85], [227, 89, 51], [249, 140, 10], [249, 201, 50], [252, 255, 164]],
+    jet: [[0, 0, 131], [0, 60, 170], [5, 255, 255], [255, 255, 0], [250, 0, 0], [128, 0, 0]],
+    gray: [[0, 0, 0], [255, 255, 255]],
+};
+
+interface NpyArray {
+    name: string;
+    shape: number[];
+    values: Float64Array;
+}
+
+const readNpy = async (file: File): Promise<NpyArray> => {
+    const parsed = new npyjs().parse(await file.arrayBuffer());
+    const { shape } = parsed;
+    let values = Float64Array.from(parsed.data as ArrayLike<number | bigint>, Number);
+
+    // Store 2D arrays row-major regardless of how they were written
+    if (parsed.fortranOrder && shape.length === 2) {
+        const [rows, cols] = shape;
+        const transposed = new Float64Array(values.length);
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < cols; c++) transposed[r * cols + c] = values[c * rows + r];
+        }
+        values = transposed;
+    }
+    return { name: file.name, shape, values };
+};
+
+/**
+ * Build a dispersion image from a 2D f-v power .npy plus its 1D frequency
+ * and velocity axis .npy files. Axis files are recognised by name
+ * (freq*, vel*), otherwise taken as frequency then velocity; the image
+ * orientation follows from the axis lengths.
+ */
+export const loadDispersionImage = async (files: File[]): Promise<DispersionImage> => {
+    const arrays = await Promise.all(files.map(readNpy));
+
+    const image = arrays.find(array => array.shape.length === 2);
+    if (!image) throw new Error('No 2D power array among the selected .npy files');
+
+    const vectors = arrays.filter(array => array.shape.length === 1);
+    let frequencyAxis = vectors.find(v => /freq|^f[_.]/i.test(v.name));
+    let velocityAxis = vectors.find(v => /vel|^v[_.]/i.test(v.name));
+    const unnamed = vectors.filter(v => v !== frequencyAxis && v !== velocityAxis);
+    frequencyAxis ??= unnamed.shift();
+    velocityAxis ??= unnamed.shift();
+    if (!frequencyAxis || !velocityAxis) {
+        throw new Error('Select the frequency and velocity axis .npy files together with the image');
+    }
+
+    const [rows, cols] = image.shape;
+    const nf = frequencyAxis.values.length;
+    const nv = velocityAxis.values.length;
+
+    let power: Float64Array;
+    if (rows === nv && cols === nf) {
+        power = image.values;
+    } else if (rows === nf && cols === nv) {
+        power = new Float64Array(image.values.length);
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < cols; c++) power[c * nf + r] = image.values[r * cols + c];
+        }
+    } else {
+        throw new Error(`Image shape ${rows}x${cols} does not match ${nf} frequencies and ${nv} velocities`);
+    }
+
+    return {
+        frequencies: Array.from(frequencyAxis.values),
+        velocities: Array.from(velocityAxis.values),
+        power
+    };
+};
+
+/** Period / velocity extents covered by the image, for fitting the plot axes. */
+export const imageExtents = (image: DispersionImage): AxisLimits => {
+    const positive = image.frequencies.filter(f => f > 0);
+    return {
+        xmin: 1 / Math.max(...positive),
+        xmax: 1 / Math.min(...positive),
+        ymin: Math.min(...image.velocities),
+        ymax: Math.max(...image.velocities)
+    };
+};
+
+/** Power scaled to [0, 1], row-major [velocity][frequency] like the source. */
+export const normalizeImage = (image: DispersionImage, normalization: ImageNormalization): Float64Array => {
+    const nf = image.frequencies.length;
+    const nv = image.velocities.length;
+    const { power } = image;
+    const result = new Float64Array(power.length);
+
+    if (normalization === 'frequency') {
+        for (let f = 0; f < nf; f++) {
+            let max = 0;
+            for (let v = 0; v < nv; v++) max = Math.max(max, power[v * nf + f]);
+            for (let v = 0; v < nv; v++) result[v * nf + f] = max > 0 ? Math.max(0, power[v * nf + f]) / max : 0;
+        }
+        return result;
+    }
+
+    let max = 0;
+    for (let i = 0; i < power.length; i++) max = Math.max(max, power[i]);
+    for (let i = 0; i < power.length; i++) {
+        const value = max > 0 ? power[i] / max : 0;
+        result[i] = normalization === 'log'
+            ? value > 0 ? Math.max(0, 1 + Math.log10(value) / LOG_DYNAMIC_RANGE) : 0
+            : Math.max(0, value);
+    }
+    return result;
+};
+
+export const colormapColor = (colormap: Colormap, value: number): [number, number, number] => {
+    const stops = COLORMAP_STOPS[colormap];
+    const position = Math.min(1, Math.max(0, value)) * (stops.length - 1);
+    const i = Math.min(Math.floor(position), stops.length - 2);
+    const t = position - i;
+    return [0, 1, 2].map(c => Math.round(stops[i][c] + (stops[i + 1][c] - stops[i][c]) * t)) as [number, number, number];
+};
+
+// Index of the axis sample closest to a value; axes may run either way
+export const nearestIndex = (axis: number[], value: number): number => {
+    const ascending = axis[axis.length - 1] >= axis[0];
+    let lo = 0;
+    let hi = axis.length - 1;
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if ((axis[mid] < value) === ascending) lo = mid;
+        else hi = mid;
+    }
+    return Math.abs(axis[lo] - value) <= Math.abs(axis[hi] - value) ? lo : hi;
+};
+
+/**
+ * Velocity of the spectral peak nearest to a pick: climbs the power column at
+ * the pick's frequency from its velocity to the local maximum. Picks outside
+ * the image are returned unchanged.
+ */
+export const snapToSpectralMaximum = (image: DispersionImage, period: number, velocity: number): number => {
+    const extents = imageExtents(image);
+    if (period < extents.xmin || period > extents.xmax || velocity < extents.ymin || velocity > extents.ymax) {
+        return velocity;
+    }
+
+    const nf = image.frequencies.length;
+    const column = nearestIndex(image.frequencies, 1 / period);
+    const powerAt = (v: number) => image.power[v * nf + column];
+
+    let v = nearestIndex(image.velocities, velocity);
+    for (;;) {
+        const up = v + 1 < image.velocities.length ? powerAt(v + 1) : -Infinity;
+        const down = v > 0 ? powerAt(v - 1) : -Infinity;
+        if (up > powerAt(v) && up >= down) v++;
+        else if (down > powerAt(v)) v--;
+        else break;
+    }
+    return image.velocities[v];
+};
+
+/**
+ * Rasterise the normalised image into plot space (x in the given domain,
+ * velocity on y) through the plot's scales, so it lines up with the picks on
+ * linear and log axes alike.
+ */
+export const renderImageCanvas = (
+    image: DispersionImage,
+    normalized: Float64Array,
+    xScale: Scale,
+    yScale: Scale,
+    colormap: Colormap,
+    domain: XDomain = 'period'
+): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(Math.abs(xScale.rangeEnd - xScale.rangeStart)));
+    canvas.height = Math.max(1, Math.round(Math.abs(yScale.rangeEnd - yScale.rangeStart)));
+    const context = canvas.getContext('2d');
+    if (!context) return canvas;
+
+    const nf = image.frequencies.length;
+    const extents = imageExtents(image);
+    const lut = Array.from({ length: 256 }, (_, i) => colormapColor(colormap, i / 255));
+    const pixels = context.createImageData(canvas.width, canvas.height);
+
+    const xValues = Array.from({ length: canvas.width }, (_, px) => xScale.fromScreen(px + 0.5));
+    const columnsAt = (velocity: number) => xValues.map(x => {
+        const period = fromDomainX(domain, x, velocity);
+        return period >= extents.xmin && period <= extents.xmax ? nearestIndex(image.frequencies, 1 / period) : -1;
+    });
+    // Only wavelength makes the column depend on the row's velocity
+    let columns = domain === 'wavelength' ? [] : columnsAt(0);
+
+    for (let py = 0; py < canvas.height; py++) {
+        const velocity = yScale.fromScreen(py + 0.5);
+        if (velocity < extents.ymin || velocity > extents.ymax) continue;
+        const row = nearestIndex(image.velocities, velocity) * nf;
+        if (domain === 'wavelength') columns = columnsAt(velocity);
+
+        for (let px = 0; px < canvas.width; px++) {
+            if (columns[px] < 0) continue;
+            const [r, g, b] = lut[Math.round(normalized[row + columns[px]] * 255)];
+            const offset = (py * canvas.width + px) * 4;
+            pixels.data[offset] = r;
+            pixels.data[offset + 1] = g;
+            pixels.data[offset + 2] = b;
+            pixels.data[offset + 3] = 255;
+        }
+    }
+
+    context.putImageData(pixels, 0, 0);
+    return canvas;
+};
@@ -0,0 +1,13 @@
+/** Offer a blob to the user as a file download. */
+export const downloadBlob = (fileName: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/** Offer text content to the user as a file download. */
+export const downloadText = (fileName: string, text: string, mimeType = 'text/plain') =>
+    downloadBlob(fileName, new Blob([text], { type: mimeType }));
@@ -0,0 +1,221 @@
+import { Layer, Point } from '../types';
+import { computePhaseVelocities } from './dispersion';
+import { misfitWeights } from './uncertainty';
+
+// Same minimum gap RightPlot keeps between boundaries while dragging
+const MIN_THICKNESS = 0.1;
+const INITIAL_DAMPING = 0.01;
+const MAX_STEP_ATTEMPTS = 6;
+const RELATIVE_DERIVATIVE_STEP = 1e-3;
+const CONVERGENCE_TOLERANCE = 1e-4;
+
+export interface LayerBounds {
+    minVelocity: number;
+    maxVelocity: number;
+    locked: boolean;
+}
+
+export interface InversionOptions {
+    bounds: LayerBounds[];
+    invertDepths: boolean;
+    maxIterations: number;
+    uncertainties?: number[];   // per-pick sigma in m/s; when every pick has one, residuals are weighted by 1/sigma
+}
+
+export interface InversionProgress {
+    iteration: number;
+    maxIterations: number;
+    bestLayers: Layer[];
+    bestMisfit: number;
+    history: number[];
+}
+
+interface Parameter {
+    kind: 'velocity' | 'boundary';
+    index: number;
+}
+
+interface Evaluation {
+    misfit: number;
+    residuals: number[];
+}
+
+export const defaultLayerBounds = (layer: Layer): LayerBounds => ({
+    minVelocity: Math.round(layer.velocity * 0.5),
+    maxVelocity: Math.round(layer.velocity * 2),
+    locked: false
+});
+
+// Velocities of unlocked layers, then the boundaries that don't touch a locked layer
+const buildParameters = (layers: Layer[], options: InversionOptions): Parameter[] => {
+    const parameters: Parameter[] = [];
+    layers.forEach((_, index) => {
+        if (!options.bounds[index]?.locked) {
+            parameters.push({ kind: 'velocity', index });
+        }
+    });
+    if (options.invertDepths) {
+        for (let index = 1; index < layers.length; index++) {
+            if (!options.bounds[index - 1]?.locked && !options.bounds[index]?.locked) {
+                parameters.push({ kind: 'boundary', index });
+            }
+        }
+    }
+    return parameters;
+};
+
+const readParameters = (layers: Layer[], parameters: Parameter[]): number[] =>
+    parameters.map(p => p.kind === 'velocity' ? layers[p.index].velocity : layers[p.index].startDepth);
+
+// Write parameter values into a copy of the layers, clamped to bounds and depth order
+const applyParameters = (
+    layers: Layer[],
+    parameters: Parameter[],
+    values: number[],
+    options: InversionOptions
+): Layer[] => {
+    const newLayers = layers.map(layer => ({ ...layer }));
+
+    parameters.forEach((parameter, i) => {
+        if (parameter.kind === 'velocity') {
+            const { minVelocity, maxVelocity } = options.bounds[parameter.index];
+            newLayers[parameter.index].velocity = Math.max(minVelocity, Math.min(maxVelocity, values[i]));
+        } else {
+            newLayers[parameter.index].startDepth = values[i];
+        }
+    });
+
+    for (let index = 1; index < newLayers.length; index++) {
+        const minDepth = newLayers[index - 1].startDepth + MIN_THICKNESS;
+        const maxDepth = newLayers[index].endDepth - MIN_THICKNESS;
+        const depth = Math.max(minDepth, Math.min(maxDepth, newLayers[index].startDepth));
+        newLayers[index].startDepth = depth;
+        newLayers[index - 1].endDepth = depth;
+    }
+
+    return newLayers;
+};
+
+// (Weighted) RMS misfit; unmodeled points count as a full miss so the search can't hide them
+const evaluate = (layers: Layer[], points: Point[], weights: number[] | null): Evaluation => {
+    const modeled = computePhaseVelocities(layers, points.map(point => point.x), points.map(point => point.mode ?? 0));
+    const residuals = points.map((point, index) =>
+        (isNaN(modeled[index]) ? point.y : point.y - modeled[index]) * (weights ? weights[index] : 1)
+    );
+    const misfit = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length);
+    return { misfit, residuals };
+};
+
+// Gaussian elimination with partial pivoting; A is modified in place
+const solveLinearSystem = (A: number[][], b: number[]): number[] => {
+    const n = b.length;
+    const x = [...b];
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+        }
+        [A[col], A[pivot]] = [A[pivot], A[col]];
+        [x[col], x[pivot]] = [x[pivot], x[col]];
+
+        const diagonal = A[col][col] || 1e-12;
+        for (let row = col + 1; row < n; row++) {
+            const factor = A[row][col] / diagonal;
+            for (let k = col; k < n; k++) A[row][k] -= factor * A[col][k];
+            x[row] -= factor * x[col];
+        }
+    }
+
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = x[row];
+        for (let k = row + 1; k < n; k++) sum -= A[row][k] * x[k];
+        x[row] = sum / (A[row][row] || 1e-12);
+    }
+    return x;
+};
+
+/**
+ * Damped least-squares (Levenberg-Marquardt) fit of the layer model to the
+ * picked points, with a finite-difference Jacobian. Calls `onProgress` after
+ * every iteration and returns the best model found.
+ */
+export const invertLayerModel = (
+    initialLayers: Layer[],
+    points: Point[],
+    options: InversionOptions,
+    onProgress?: (progress: InversionProgress) => void
+): InversionProgress => {
+    const parameters = buildParameters(initialLayers, options);
+
+    let values = readParameters(initialLayers, parameters);
+    let layers = applyParameters(initialLayers, parameters, values, options);
+    values = readParameters(layers, parameters);
+    const weights = options.uncertainties?.length === points.length ? misfitWeights(options.uncertainties) : null;
+    let current = evaluate(layers, points, weights);
+    let damping = INITIAL_DAMPING;
+    const history = [current.misfit];
+
+    const snapshot = (iteration: number): InversionProgress => ({
+        iteration,
+        maxIterations: options.maxIterations,
+        bestLayers: layers,
+        bestMisfit: current.misfit,
+        history: [...history]
+    });
+
+    if (parameters.length === 0 || points.length === 0) {
+        return snapshot(options.maxIterations);
+    }
+
+    for (let iteration = 1; iteration <= options.maxIterations; iteration++) {
+        // Jacobian of the residuals: column j is d(residual)/d(parameter j)
+        const jacobian = parameters.map((_, j) => {
+            const step = RELATIVE_DERIVATIVE_STEP * Math.max(Math.abs(values[j]), 1);
+            const perturbed = [...values];
+            perturbed[j] += step;
+            const trial = evaluate(applyParameters(initialLayers, parameters, perturbed, options), points, weights);
+            return trial.residuals.map((r, i) => (r - current.residuals[i]) / step);
+        });
+
+        // Normal equations: (JᵀJ + λ·diag(JᵀJ)) δ = -Jᵀr
+        const n = parameters.length;
+        const normal = Array.from({ length: n }, (_, a) =>
+            Array.from({ length: n }, (_, b) =>
+                jacobian[a].reduce((sum, value, i) => sum + value * jacobian[b][i], 0)
+            )
+        );
+        const gradient = jacobian.map(column =>
+            -column.reduce((sum, value, i) => sum + value * current.residuals[i], 0)
+        );
+
+        let stepTaken = false;
+        let converged = false;
+        for (let attempt = 0; attempt < MAX_STEP_ATTEMPTS && !stepTaken; attempt++) {
+            const damped = normal.map((row, a) =>
+                row.map((value, b) => a === b ? value * (1 + damping) + 1e-12 : value)
+            );
+            const delta = solveLinearSystem(damped, gradient);
+            const trialLayers = applyParameters(initialLayers, parameters, values.map((v, j) => v + delta[j]), options);
+            const trial = evaluate(trialLayers, points, weights);
+
+            if (trial.misfit < current.misfit) {
+                converged = trial.misfit > current.misfit * (1 - CONVERGENCE_TOLERANCE);
+                layers = trialLayers;
+                values = readParameters(trialLayers, parameters);
+                current = trial;
+                damping = Math.max(damping / 3, 1e-6);
+                stepTaken = true;
+            } else {
+                damping *= 4;
+            }
+        }
+
+        history.push(current.misfit);
+        onProgress?.(snapshot(iteration));
+
+        if (!stepTaken || converged) break;
+    }
+
+    return snapshot(options.maxIterations);
+};
@@ -0,0 +1,139 @@
+import { Bounds, Layer } from '../types';
+
+// Structural edits on a contiguous layer model. Each returns a new array and
+// leaves the input untouched, so results can go straight into history.
+
+const thickness = (layer: Layer) => layer.endDepth - layer.startDepth;
+
+const weightedAverage = (a: Layer, b: Layer, key: 'velocity' | 'density' | 'vp') => {
+    const total = thickness(a) + thickness(b);
+    return total > 0 ? (a[key] * thickness(a) + b[key] * thickness(b)) / total : (a[key] + b[key]) / 2;
+};
+
+// Vs bounds the merged layer must respect to keep both halves' limits
+const combinedBounds = (a: Bounds | undefined, b: Bounds | undefined): Bounds | undefined => {
+    if (!a || !b) return a ?? b;
+    const pick = (x: number | null, y: number | null, choose: (...values: number[]) => number) =>
+        x === null ? y : y === null ? x : choose(x, y);
+    return { min: pick(a.min, b.min, Math.max), max: pick(a.max, b.max, Math.min) };
+};
+
+export const splitLayer = (layers: Layer[], index: number, depth: number): Layer[] => {
+    const layer = layers[index];
+    if (!layer || depth <= layer.startDepth || depth >= layer.endDepth) return layers;
+
+    const newLayers = [...layers];
+    newLayers.splice(index, 1, { ...layer, endDepth: depth }, { ...layer, startDepth: depth });
+    return newLayers;
+};
+
+/** Merge layer `index` with the one below it, using thickness-weighted properties. */
+export const mergeWithBelow = (layers: Layer[], index: number): Layer[] => {
+    const upper = layers[index];
+    const lower = layers[index + 1];
+    if (!upper || !lower) return layers;
+
+    const merged: Layer = {
+        startDepth: upper.startDepth,
+        endDepth: lower.endDepth,
+        velocity: weightedAverage(upper, lower, 'velocity'),
+        density: weightedAverage(upper, lower, 'density'),
+        vp: weightedAverage(upper, lower, 'vp')
+    };
+    const vsBounds = combinedBounds(upper.vsBounds, lower.vsBounds);
+    if (vsBounds) merged.vsBounds = vsBounds;
+    const newLayers = [...layers];
+    newLayers.splice(index, 2, merged);
+    return newLayers;
+};
+
+/**
+ * Remove the interface between layers `boundaryIndex - 1` and `boundaryIndex`.
+ * Only interior boundaries can go; the top and bottom of the model stay put.
+ */
+export const deleteBoundary = (layers: Layer[], boundaryIndex: number): Layer[] => {
+    if (boundaryIndex <= 0 || boundaryIndex >= layers.length) return layers;
+    return mergeWithBelow(layers, boundaryIndex - 1);
+};
+
+/** Remove a layer; the layer above grows down to fill the gap (the one below for the top layer). */
+export const deleteLayer = (layers: Layer[], index: number): Layer[] => {
+    if (layers.length <= 1 || !layers[index]) return layers;
+
+    const newLayers = [...layers];
+    const removed = newLayers.splice(index, 1)[0];
+    if (index > 0) {
+        newLayers[index - 1] = { ...newLayers[index - 1], endDepth: removed.endDepth };
+    } else {
+        newLayers[0] = { ...newLayers[0], startDepth: removed.startDepth };
+    }
+    return newLayers;
+};
+
+/** Append a new bottom layer as thick as the current deepest one. */
+export const insertHalfSpace = (layers: Layer[]): Layer[] => {
+    const last = layers[layers.length - 1];
+    if (!last) return layers;
+
+    return [...layers, { ...last, startDepth: last.endDepth, endDepth: last.endDepth + thickness(last) }];
+};
+
+/** Insert a copy of a layer directly beneath it, pushing deeper layers down. */
+export const duplicateLayer = (layers: Layer[], index: number): Layer[] => {
+    const layer = layers[index];
+    if (!layer) return layers;
+
+    const shift = thickness(layer);
+    const copy: Layer = { ...layer, startDepth: layer.endDepth, endDepth: layer.endDepth + shift };
+    const deeper = layers.slice(index + 1).map(l => ({ ...l, startDepth: l.startDepth + shift, endDepth: l.endDepth + shift }));
+    return [...layers.slice(0, index + 1), copy, ...deeper];
+};
+
+export type LayerField = 'thickness' | 'top' | 'bottom' | 'velocity' | 'vp' | 'density';
+
+export type LayerEditResult = { layers: Layer[] } | { error: string };
+
+/**
+ * Set one field of one layer, moving neighbours so depths stay contiguous:
+ * a new thickness shifts every deeper layer, a new top or bottom moves the
+ * shared boundary with the adjacent layer.
+ */
+export const updateLayerField = (layers: Layer[], index: number, field: LayerField, value: number): LayerEditResult => {
+    const layer = layers[index];
+    if (!layer) return { error: `Layer ${index + 1} does not exist` };
+    if (!isFinite(value)) return { error: 'Not a number' };
+
+    const newLayers = [...layers];
+    const prev = layers[index - 1];
+    const next = layers[index + 1];
+
+    switch (field) {
+        case 'thickness': {
+            if (value <= 0) return { error: 'Thickness must be positive' };
+            const shift = value - thickness(layer);
+            newLayers[index] = { ...layer, endDepth: layer.startDepth + value };
+            for (let i = index + 1; i < layers.length; i++) {
+                newLayers[i] = { ...layers[i], startDepth: layers[i].startDepth + shift, endDepth: layers[i].endDepth + shift };
+            }
+            break;
+        }
+        case 'top':
+            if (value < 0) return { error: 'Depth cannot be negative' };
+            if (value >= layer.endDepth) return { error: 'Top must be above the bottom of the layer' };
+            if (prev && value <= prev.startDepth) return { error: `Top must be below the top of layer ${index}` };
+            newLayers[index] = { ...layer, startDepth: value };
+            if (prev) newLayers[index - 1] = { ...prev, endDepth: value };
+            break;
+        case 'bottom':
+            if (value <= layer.startDepth) return { error: 'Bottom must be below the top of the layer' };
+            if (next && value >= next.endDepth) return { error: `Bottom must be above the bottom of layer ${index + 2}` };
+            newLayers[index] = { ...layer, endDepth: value };
+            if (next) newLayers[index + 1] = { ...next, startDepth: value };
+            break;
+        default:
+            if (value <= 0) return { error: 'Value must be positive' };
+            newLayers[index] = { ...layer, [field]: value };
+    }
+
+    return { layers: newLayers };
+};
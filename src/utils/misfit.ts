@@ -0,0 +1,47 @@
+import { Layer, Point } from '../types';
+import { computePhaseVelocities } from './dispersion';
+import { misfitWeights } from './uncertainty';
+
+export interface MisfitResult {
+    residuals: number[];     // observed - modeled, aligned with the input points (NaN if unmodeled)
+    rms: number;             // RMS of the residuals, in velocity units
+    normalizedRms: number;   // RMS of residual / observed velocity, as a fraction
+    weightedRms: number | null;  // RMS with 1/sigma weights (see misfitWeights), null without uncertainties
+    count: number;           // number of points that contributed
+}
+
+/**
+ * Fit of the layer model's curves to the picked points, each against its own mode.
+ * `uncertainties` are per-pick sigmas in m/s. Returns null when there is
+ * nothing to compare.
+ */
+export const computeMisfit = (points: Point[], layers: Layer[], uncertainties: number[] = []): MisfitResult | null => {
+    if (points.length === 0 || layers.length === 0) return null;
+
+    const modeled = computePhaseVelocities(layers, points.map(point => point.x), points.map(point => point.mode ?? 0));
+    const residuals = points.map((point, index) => point.y - modeled[index]);
+
+    const weights = uncertainties.length === points.length ? misfitWeights(uncertainties) : null;
+
+    let sumSquares = 0;
+    let sumRelativeSquares = 0;
+    let sumWeightedSquares = 0;
+    let count = 0;
+    residuals.forEach((residual, index) => {
+        if (isNaN(residual)) return;
+        sumSquares += residual * residual;
+        sumRelativeSquares += (residual / points[index].y) ** 2;
+        if (weights) sumWeightedSquares += (residual * weights[index]) ** 2;
+        count++;
+    });
+
+    if (count === 0) return null;
+
+    return {
+        residuals,
+        rms: Math.sqrt(sumSquares / count),
+        normalizedRms: Math.sqrt(sumRelativeSquares / count),
+        weightedRms: weights ? Math.sqrt(sumWeightedSquares / count) : null,
+        count
+    };
+};
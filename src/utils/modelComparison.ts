@@ -0,0 +1,108 @@
+import { Graphics } from 'pixi.js';
+import { Layer } from '../types';
+import { velocityAt } from './crossSection';
+
+export interface OverlayStyle {
+    color: number;
+    dash: number[] | null;   // on/off lengths in pixels, null for solid
+}
+
+// 7 colours and 4 dash patterns cycle independently, so the first 28 styles all differ
+const OVERLAY_COLORS = [0x1F77B4, 0x2CA02C, 0x9467BD, 0xFF7F0E, 0x17BECF, 0x8C564B, 0xE377C2];
+const OVERLAY_DASHES: (number[] | null)[] = [null, [8, 4], [2, 3], [10, 3, 2, 3]];
+
+export const overlayStyle = (index: number): OverlayStyle => ({
+    color: OVERLAY_COLORS[index % OVERLAY_COLORS.length],
+    dash: OVERLAY_DASHES[index % OVERLAY_DASHES.length],
+});
+
+/** Vs-depth step profile of a model: one vertical segment per layer joined at the boundaries. */
+export const stepProfile = (layers: Layer[]): { velocity: number; depth: number }[] =>
+    [...layers]
+        .sort((a, b) => a.startDepth - b.startDepth)
+        .flatMap(layer => [
+            { velocity: layer.velocity, depth: layer.startDepth },
+            { velocity: layer.velocity, depth: layer.endDepth },
+        ]);
+
+/** Stroke a polyline, dashed when a pattern is given (Pixi has no dashed strokes). */
+export const drawPolyline = (g: Graphics, points: { x: number; y: number }[], dash: number[] | null) => {
+    if (points.length < 2) return;
+    if (!dash) {
+        g.moveTo(points[0].x, points[0].y);
+        points.slice(1).forEach(point => g.lineTo(point.x, point.y));
+        return;
+    }
+
+    let dashIndex = 0;
+    let remaining = dash[0];
+    for (let i = 1; i < points.length; i++) {
+        const start = points[i - 1];
+        const end = points[i];
+        const length = Math.hypot(end.x - start.x, end.y - start.y);
+        let travelled = 0;
+        while (travelled < length) {
+            const step = Math.min(remaining, length - travelled);
+            if (dashIndex % 2 === 0) {
+                const t0 = travelled / length;
+                const t1 = (travelled + step) / length;
+                g.moveTo(start.x + (end.x - start.x) * t0, start.y + (end.y - start.y) * t0);
+                g.lineTo(start.x + (end.x - start.x) * t1, start.y + (end.y - start.y) * t1);
+            }
+            travelled += step;
+            remaining -= step;
+            if (remaining <= 0) {
+                dashIndex = (dashIndex + 1) % dash.length;
+                remaining = dash[dashIndex];
+            }
+        }
+    }
+};
+
+// Every boundary depth of the models, sorted and de-duplicated
+const boundaryDepths = (models: Layer[][]): number[] =>
+    [...new Set(models.flatMap(layers => layers.flatMap(layer => [layer.startDepth, layer.endDepth])))].sort((a, b) => a - b);
+
+/**
+ * Vs of model a minus model b, as depth intervals over the boundaries of
+ * both; each model's half-space continues below its last layer.
+ */
+export const velocityDifference = (a: Layer[], b: Layer[]): { top: number; bottom: number; difference: number }[] => {
+    if (a.length === 0 || b.length === 0) return [];
+    const depths = boundaryDepths([a, b]);
+    return depths.slice(1).map((bottom, i) => {
+        const middle = (depths[i] + bottom) / 2;
+        return { top: depths[i], bottom, difference: velocityAt(a, middle) - velocityAt(b, middle) };
+    });
+};
+
+// Linear interpolation between order statistics
+const percentile = (sorted: number[], p: number): number => {
+    const position = (sorted.length - 1) * p;
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, sorted.length - 1);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const ENVELOPE_PERCENTILES: [number, number] = [0.1, 0.9];
+
+/**
+ * Median and percentile band of Vs across models, as depth intervals over
+ * all of their boundaries.
+ */
+export const modelEnvelope = (models: Layer[][]): { top: number; bottom: number; low: number; median: number; high: number }[] => {
+    const nonEmpty = models.filter(layers => layers.length > 0);
+    if (nonEmpty.length < 2) return [];
+    const depths = boundaryDepths(nonEmpty);
+    return depths.slice(1).map((bottom, i) => {
+        const middle = (depths[i] + bottom) / 2;
+        const velocities = nonEmpty.map(layers => velocityAt(layers, middle)).sort((x, y) => x - y);
+        return {
+            top: depths[i],
+            bottom,
+            low: percentile(velocities, ENVELOPE_PERCENTILES[0]),
+            median: percentile(velocities, 0.5),
+            high: percentile(velocities, ENVELOPE_PERCENTILES[1]),
+        };
+    });
+};
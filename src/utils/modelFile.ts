@@ -0,0 +1,149 @@
+import { Layer, LayerData, SourceRow } from '../types';
+
+// Layout of an imported model file, kept so an export can reproduce it
+export interface ModelFileInfo {
+    name: string;
+    header: string[];     // lines before the first layer row
+    footer: string[];     // lines after the last layer row (a trailing '' means a final newline)
+    lineEnding: string;
+    separator: string;
+}
+
+export interface ParsedModelFile {
+    layers: Layer[];
+    info: ModelFileInfo;
+}
+
+const parseRow = (line: string): LayerData | null => {
+    const tokens = line.trim().split(/\s+/);
+    const [depth, density, ignore, velocity] = tokens.slice(0, 4).map(Number);
+    if (isNaN(depth) || isNaN(velocity)) return null;
+    return { depth, density, ignore, velocity, description: tokens.slice(4).join(' ') };
+};
+
+/**
+ * Parse the whitespace-separated depth / density / Vp / Vs model format,
+ * two rows per layer marking its top and bottom.
+ */
+export const parseModelFile = (text: string, name: string): ParsedModelFile => {
+    const lineEnding = text.includes('\r\n') ? '\r\n' : '\n';
+    const lines = text.split(/\r?\n/);
+
+    // Lines between data rows ride along with the row after them; those before the first row are the header
+    const rows: { index: number; row: SourceRow }[] = [];
+    lines.forEach((line, index) => {
+        const data = parseRow(line);
+        if (!data) return;
+        const previous = rows[rows.length - 1];
+        const before = previous ? lines.slice(previous.index + 1, index) : [];
+        rows.push({ index, row: { text: line, data, ...(before.length > 0 ? { before } : {}) } });
+    });
+
+    // Create layers from consecutive rows; an unpaired last row stays in the footer
+    const layers: Layer[] = [];
+    for (let i = 0; i < rows.length - 1; i += 2) {
+        const top = rows[i].row;
+        const bottom = rows[i + 1].row;
+        layers.push({
+            startDepth: top.data.depth,
+            endDepth: bottom.data.depth,
+            velocity: top.data.velocity,
+            density: top.data.density,
+            vp: top.data.ignore,
+            source: { top, bottom }
+        });
+    }
+
+    const firstIndex = layers.length > 0 ? rows[0].index : lines.length;
+    const lastIndex = layers.length > 0 ? rows[layers.length * 2 - 1].index : lines.length - 1;
+    const separator = layers.length > 0 ? rows[0].row.text.trim().match(/\s+/)?.[0] ?? ' ' : ' ';
+
+    return {
+        layers,
+        info: {
+            name,
+            header: lines.slice(0, firstIndex),
+            footer: lines.slice(lastIndex + 1),
+            lineEnding,
+            separator
+        }
+    };
+};
+
+// At least as many decimals as the token it replaces, so edited rows line up with their neighbours
+const formatLike = (value: number, template: string | undefined): string => {
+    if (!isFinite(value)) return String(value);
+    const exact = String(Number(value.toFixed(4)));
+    const needed = exact.split('.')[1]?.length ?? 0;
+    const templateDecimals = template?.split('.')[1]?.replace(/[eE].*$/, '').length ?? 0;
+    return value.toFixed(Math.max(needed, templateDecimals));
+};
+
+const isUnchanged = (layer: Layer): boolean => {
+    const { source } = layer;
+    return !!source
+        && source.top.data.depth === layer.startDepth
+        && source.bottom.data.depth === layer.endDepth
+        && source.top.data.velocity === layer.velocity
+        && source.top.data.density === layer.density
+        && source.top.data.ignore === layer.vp;
+};
+
+const formatRow = (depth: number, layer: Layer, template: SourceRow | undefined, separator: string): string => {
+    const tokens = template?.text.trim().split(/\s+/) ?? [];
+    const values = [depth, layer.density, layer.vp, layer.velocity].map((value, i) => formatLike(value, tokens[i]));
+    const description = template?.data.description;
+    return [...values, ...(description ? [description] : [])].join(separator);
+};
+
+/**
+ * Write layers back in the import format. Layers that still match their
+ * source rows are emitted verbatim, with the comment lines that came
+ * between them, so an unedited model round-trips exactly.
+ */
+export const formatModelFile = (layers: Layer[], info: ModelFileInfo | null): string => {
+    const separator = info?.separator ?? ' ';
+    const fallbackTemplate = layers.find(layer => layer.source)?.source?.top;
+
+    // A split or duplicated layer shares its source rows; their comment lines are written once
+    const written = new Set<SourceRow>();
+    const linesBefore = (row: SourceRow | undefined): string[] => {
+        if (!row?.before || written.has(row)) return [];
+        written.add(row);
+        return row.before;
+    };
+
+    const rows = layers.flatMap(layer => {
+        const [top, bottom] = isUnchanged(layer)
+            ? [layer.source!.top.text, layer.source!.bottom.text]
+            : [
+                formatRow(layer.startDepth, layer, layer.source?.top ?? fallbackTemplate, separator),
+                formatRow(layer.endDepth, layer, layer.source?.bottom ?? fallbackTemplate, separator)
+            ];
+        return [...linesBefore(layer.source?.top), top, ...linesBefore(layer.source?.bottom), bottom];
+    });
+
+    const lines = info ? [...info.header, ...rows, ...info.footer] : [...rows, ''];
+    return lines.join(info?.lineEnding ?? '\n');
+};
+
+export const formatModelCsv = (layers: Layer[]): string => {
+    const rows = layers.map(layer =>
+        [layer.endDepth - layer.startDepth, layer.velocity, layer.vp, layer.density]
+            .map(value => Number(value.toFixed(6)))
+            .join(',')
+    );
+    return ['thickness,vs,vp,density', ...rows].join('\n') + '\n';
+};
+
+export const formatModelJson = (layers: Layer[]): string => {
+    const plain = layers.map(({ startDepth, endDepth, velocity, vp, density }) => ({
+        startDepth,
+        endDepth,
+        thickness: endDepth - startDepth,
+        vs: velocity,
+        vp,
+        density
+    }));
+    return JSON.stringify({ layers: plain }, null, 2) + '\n';
+};
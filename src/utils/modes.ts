@@ -0,0 +1,49 @@
+import { Graphics } from 'pixi.js';
+import { Point } from '../types';
+
+export type MarkerShape = 'circle' | 'square' | 'triangle' | 'diamond';
+
+export interface ModeStyle {
+    color: number;
+    marker: MarkerShape;
+}
+
+// Fundamental mode keeps the original red circles; modes past the end reuse the list
+const MODE_STYLES: ModeStyle[] = [
+    { color: 0xFF0000, marker: 'circle' },
+    { color: 0x16A34A, marker: 'square' },
+    { color: 0x9333EA, marker: 'triangle' },
+    { color: 0xEA580C, marker: 'diamond' },
+    { color: 0x0891B2, marker: 'circle' },
+    { color: 0xDB2777, marker: 'square' },
+];
+
+export const pointMode = (point: Point): number => point.mode ?? 0;
+
+export const modeStyle = (mode: number): ModeStyle => MODE_STYLES[Math.abs(mode) % MODE_STYLES.length];
+
+export const modeLabel = (mode: number): string => mode === 0 ? 'Fundamental' : `Mode ${mode}`;
+
+/** Distinct modes present in the picks, ascending. */
+export const modesOf = (points: Point[]): number[] =>
+    [...new Set(points.map(pointMode))].sort((a, b) => a - b);
+
+export const cssColor = (color: number): string => `#${color.toString(16).padStart(6, '0')}`;
+
+/** Add a marker path centred on (x, y); `size` is the circle radius equivalent. */
+export const drawMarker = (g: Graphics, marker: MarkerShape, x: number, y: number, size: number) => {
+    switch (marker) {
+        case 'circle':
+            g.circle(x, y, size);
+            break;
+        case 'square':
+            g.rect(x - size * 0.9, y - size * 0.9, size * 1.8, size * 1.8);
+            break;
+        case 'triangle':
+            g.poly([x, y - size * 1.2, x + size * 1.1, y + size * 0.8, x - size * 1.1, y + size * 0.8]);
+            break;
+        case 'diamond':
+            g.poly([x, y - size * 1.3, x + size * 1.1, y, x, y + size * 1.3, x - size * 1.1, y]);
+            break;
+    }
+};
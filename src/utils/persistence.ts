@@ -0,0 +1,39 @@
+import { ProjectFile } from './project';
+
+const DATABASE_NAME = 'pixi-plots';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'workspace';
+const AUTOSAVE_KEY = 'autosave';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Run one request in its own transaction and close the connection afterwards
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const database = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = database.transaction(STORE_NAME, mode);
+            const request = run(transaction.objectStore(STORE_NAME));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        database.close();
+    }
+};
+
+/** Store the workspace as the autosave, replacing the previous one. */
+export const saveAutosave = async (project: ProjectFile): Promise<void> => {
+    await withStore('readwrite', store => store.put(project, AUTOSAVE_KEY));
+};
+
+/** The last autosaved project, or null when there is none. */
+export const loadAutosave = async (): Promise<unknown> =>
+    (await withStore('readonly', store => store.get(AUTOSAVE_KEY))) ?? null;
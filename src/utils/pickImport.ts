@@ -0,0 +1,209 @@
+import { Point } from '../types';
+
+export type Delimiter = 'comma' | 'tab' | 'semicolon' | 'whitespace';
+
+export type ColumnRole = 'ignore' | 'period' | 'frequency' | 'velocity' | 'uncertainty' | 'mode' | 'source';
+
+export const DELIMITERS: Delimiter[] = ['comma', 'tab', 'semicolon', 'whitespace'];
+export const COLUMN_ROLES: ColumnRole[] = ['ignore', 'period', 'frequency', 'velocity', 'uncertainty', 'mode', 'source'];
+
+export interface RejectedLine {
+    lineNumber: number;
+    text: string;
+    reason: string;
+}
+
+export interface PickImportOptions {
+    delimiter?: Delimiter;
+    columns?: ColumnRole[];
+}
+
+export interface PickImportResult {
+    delimiter: Delimiter;
+    header: string[] | null;
+    columns: ColumnRole[];
+    columnCount: number;
+    points: Point[];
+    rejected: RejectedLine[];
+    skipped: number;   // blank, comment and header lines
+}
+
+// Columns a pick can leave empty, as written by formatPicksCsv
+const OPTIONAL_ROLES: ColumnRole[] = ['uncertainty', 'mode', 'source'];
+
+const COMMENT_PATTERN = /^\s*(#|%|\/\/|!)/;
+const SAMPLE_LINES = 20;
+
+const isNumeric = (token: string) => token.trim() !== '' && !isNaN(Number(token));
+
+export const splitLine = (line: string, delimiter: Delimiter): string[] => {
+    switch (delimiter) {
+        case 'comma':
+            return line.split(',').map(token => token.trim());
+        case 'tab':
+            return line.split('\t').map(token => token.trim());
+        case 'semicolon':
+            // Semicolon files usually come from locales with a decimal comma
+            return line.split(';').map(token => token.trim().replace(',', '.'));
+        case 'whitespace':
+            return line.trim().split(/\s+/);
+    }
+};
+
+// Most common column count of the lines under a delimiter, and how many lines have it
+const commonColumnCount = (lines: string[], delimiter: Delimiter): { count: number; lines: number } => {
+    const tally = new Map<number, number>();
+    lines.forEach(line => {
+        const count = splitLine(line, delimiter).length;
+        tally.set(count, (tally.get(count) ?? 0) + 1);
+    });
+    let best = { count: 0, lines: 0 };
+    tally.forEach((lineCount, count) => {
+        if (lineCount > best.lines || (lineCount === best.lines && count > best.count)) best = { count, lines: lineCount };
+    });
+    return best;
+};
+
+/**
+ * Pick the delimiter whose most common column count (>1) covers most of the
+ * sample lines (at least half); a few malformed lines don't throw the detection off.
+ */
+export const detectDelimiter = (lines: string[]): Delimiter => {
+    const sample = lines.slice(0, SAMPLE_LINES);
+    let best: { delimiter: Delimiter; lines: number } = { delimiter: 'whitespace', lines: 0 };
+    for (const delimiter of ['tab', 'semicolon', 'comma'] as Delimiter[]) {
+        const common = commonColumnCount(sample, delimiter);
+        if (common.count > 1 && common.lines * 2 >= sample.length && common.lines > best.lines) {
+            best = { delimiter, lines: common.lines };
+        }
+    }
+    return best.delimiter;
+};
+
+const roleFromHeader = (name: string): ColumnRole => {
+    const label = name.toLowerCase();
+    if (/mode/.test(label)) return 'mode';
+    if (/source|dataset/.test(label)) return 'source';
+    if (/unc|std|sigma|err/.test(label)) return 'uncertainty';
+    if (/freq|hz/.test(label)) return 'frequency';
+    if (/period|^t$|\(s\)/.test(label)) return 'period';
+    if (/vel|^v|^c$|m\/s/.test(label)) return 'velocity';
+    return 'ignore';
+};
+
+/**
+ * Default column roles: from the header names when there is one, otherwise
+ * the legacy velocity,period order followed by uncertainty and mode.
+ */
+export const guessColumnRoles = (header: string[] | null, columnCount: number): ColumnRole[] => {
+    if (header) {
+        const roles = header.map(roleFromHeader);
+        if (roles.includes('velocity') && (roles.includes('period') || roles.includes('frequency'))) {
+            return roles;
+        }
+    }
+    const legacy: ColumnRole[] = ['velocity', 'period', 'uncertainty', 'mode'];
+    return Array.from({ length: columnCount }, (_, i) => legacy[i] ?? 'ignore');
+};
+
+/**
+ * Parse dispersion picks from delimited text. Every non-blank, non-comment
+ * line either becomes a point or is reported in `rejected` with a reason.
+ */
+export const parsePicks = (text: string, options: PickImportOptions = {}): PickImportResult => {
+    const lines = text.split(/\r?\n/).map((line, index) => ({ lineNumber: index + 1, text: line }));
+    const content = lines.filter(line => line.text.trim().length > 0 && !COMMENT_PATTERN.test(line.text));
+    let skipped = lines.length - content.length;
+
+    const delimiter = options.delimiter ?? detectDelimiter(content.map(line => line.text));
+
+    // Judged by most lines, so a malformed first row doesn't set the layout
+    const common = commonColumnCount(content.slice(0, SAMPLE_LINES).map(line => line.text), delimiter);
+
+    // A first line with the usual columns and a word among them is a header; anything else is data, good or bad
+    let header: string[] | null = null;
+    if (content.length > 0) {
+        const first = splitLine(content[0].text, delimiter);
+        if (first.length === common.count && first.some(token => token !== '' && !isNumeric(token))) {
+            header = first;
+            content.shift();
+            skipped++;
+        }
+    }
+
+    const columnCount = header?.length ?? common.count;
+    const columns = options.columns ?? guessColumnRoles(header, columnCount);
+
+    const points: Point[] = [];
+    const rejected: RejectedLine[] = [];
+    const reject = (line: { lineNumber: number; text: string }, reason: string) =>
+        rejected.push({ lineNumber: line.lineNumber, text: line.text, reason });
+
+    for (const line of content) {
+        const tokens = splitLine(line.text, delimiter);
+        if (tokens.length < columns.length) {
+            reject(line, `Expected ${columns.length} columns, found ${tokens.length}`);
+            continue;
+        }
+
+        const values: Partial<Record<ColumnRole, number>> = {};
+        let source: string | undefined;
+        const bad = columns.findIndex((role, i) => {
+            if (role === 'ignore') return false;
+            if (OPTIONAL_ROLES.includes(role) && tokens[i] === '') return false;
+            if (role === 'source') {
+                source = tokens[i];
+                return false;
+            }
+            values[role] = Number(tokens[i]);
+            return !isNumeric(tokens[i]);
+        });
+        if (bad >= 0) {
+            reject(line, `Column ${bad + 1} ("${tokens[bad]}") is not a number`);
+            continue;
+        }
+
+        const period = values.period ?? (values.frequency !== undefined ? 1 / values.frequency : undefined);
+        if (period === undefined || values.velocity === undefined) {
+            reject(line, 'No period/frequency or velocity column selected');
+            continue;
+        }
+        if (!(period > 0) || !isFinite(period)) {
+            reject(line, 'Period must be positive');
+            continue;
+        }
+        if (!(values.velocity > 0)) {
+            reject(line, 'Velocity must be positive');
+            continue;
+        }
+
+        const point: Point = { x: period, y: values.velocity };
+        if (values.uncertainty !== undefined) point.uncertainty = values.uncertainty;
+        if (values.mode !== undefined) point.mode = Math.round(values.mode);
+        if (source !== undefined) point.source = source;
+        points.push(point);
+    }
+
+    return { delimiter, header, columns, columnCount, points, rejected, skipped };
+};
+
+/**
+ * Write picks as CSV with a header that parsePicks maps back to the same
+ * columns. Uncertainty and source are only written when some pick has them;
+ * the mode is always written.
+ */
+export const formatPicksCsv = (points: Point[]): string => {
+    const hasUncertainty = points.some(point => point.uncertainty !== undefined);
+    const hasSource = points.some(point => point.source !== undefined);
+    const header = ['period', 'velocity', ...(hasUncertainty ? ['uncertainty'] : []), 'mode', ...(hasSource ? ['source'] : [])];
+
+    const rows = points.map(point => [
+        Number(point.x.toFixed(6)),
+        Number(point.y.toFixed(3)),
+        ...(hasUncertainty ? [point.uncertainty ?? ''] : []),
+        point.mode ?? 0,
+        // The reader does not unquote, so a comma cannot survive in a field
+        ...(hasSource ? [(point.source ?? '').replace(/,/g, ' ')] : [])
+    ].join(','));
+    return [header.join(','), ...rows].join('\n') + '\n';
+};
@@ -0,0 +1,104 @@
+import { AppState, Workspace, initialState, workspaceOf } from '../store/state';
+import { defaultStation } from './batch';
+
+export const PROJECT_FORMAT = 'dispersion-workspace';
+// Bump when the workspace shape changes, and add a migration from the previous version
+export const PROJECT_SCHEMA_VERSION = 2;
+
+export interface ProjectFile {
+    format: typeof PROJECT_FORMAT;
+    schemaVersion: number;
+    savedAt: string;
+    workspace: Record<string, unknown>;
+}
+
+type Migration = (workspace: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n workspace to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+    // Version 2 places sites along the survey line
+    1: workspace => ({
+        ...workspace,
+        sites: Array.isArray(workspace.sites)
+            ? workspace.sites.map((site: Record<string, unknown>, index: number) => ({
+                ...site,
+                station: typeof site.station === 'number' ? site.station : defaultStation(String(site.name ?? ''), index)
+            }))
+            : []
+    })
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Project for a workspace; the dispersion image stays a typed array (IndexedDB stores it as is). */
+export const toProject = (workspace: Workspace): ProjectFile => {
+    return {
+        format: PROJECT_FORMAT,
+        schemaVersion: PROJECT_SCHEMA_VERSION,
+        savedAt: new Date().toISOString(),
+        workspace: { ...workspace }
+    };
+};
+
+/** Project file text; typed arrays become plain JSON arrays. */
+export const formatProject = (state: AppState): string =>
+    JSON.stringify(
+        toProject(workspaceOf(state)),
+        (_, value) => value instanceof Float64Array ? Array.from(value) : value,
+        2
+    );
+
+/**
+ * Workspace from a saved project (parsed JSON or an IndexedDB record),
+ * migrated to the current schema. Fields the file predates get their
+ * defaults. Throws when the data is not a project this version can read.
+ */
+export const readProject = (data: unknown): Workspace => {
+    if (!isObject(data) || data.format !== PROJECT_FORMAT || !isObject(data.workspace)) {
+        throw new Error('Not a project file');
+    }
+    const version = data.schemaVersion;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error('Project file has no valid schema version');
+    }
+    if (version > PROJECT_SCHEMA_VERSION) {
+        throw new Error(`Project file is from a newer version (schema ${version}, this app reads up to ${PROJECT_SCHEMA_VERSION})`);
+    }
+
+    let saved = data.workspace;
+    for (let v = version; v < PROJECT_SCHEMA_VERSION; v++) {
+        saved = MIGRATIONS[v](saved);
+    }
+
+    const defaults = workspaceOf(initialState);
+    const merged = { ...defaults, ...saved } as Workspace;
+    if (!Array.isArray(merged.points) || !Array.isArray(merged.layers)) {
+        throw new Error('Project file has no picks or layers');
+    }
+
+    // Settings objects merge field by field so new settings get defaults too
+    return {
+        ...merged,
+        imageDisplay: { ...defaults.imageDisplay, ...merged.imageDisplay },
+        uncertaintySettings: { ...defaults.uncertaintySettings, ...merged.uncertaintySettings },
+        constraints: { ...defaults.constraints, ...merged.constraints },
+        leftAxisScales: { ...defaults.leftAxisScales, ...merged.leftAxisScales },
+        rightAxisScales: { ...defaults.rightAxisScales, ...merged.rightAxisScales },
+        viewHistory: { ...defaults.viewHistory, ...merged.viewHistory },
+        dispersionImage: merged.dispersionImage
+            ? { ...merged.dispersionImage, power: Float64Array.from(merged.dispersionImage.power) }
+            : null
+    };
+};
+
+/** Parse project file text; see readProject. */
+export const parseProject = (text: string): Workspace => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Project file is not valid JSON');
+    }
+    return readProject(data);
+};
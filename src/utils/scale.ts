@@ -0,0 +1,157 @@
+import { Graphics } from 'pixi.js';
+
+export type ScaleType = 'linear' | 'log';
+
+export interface AxisTicks {
+    major: number[];
+    minor: number[];
+}
+
+/**
+ * Mapping between data values on one axis and screen pixels. Every
+ * conversion in the plots goes through one of these so that log axes,
+ * gridlines and hit-testing agree.
+ */
+export interface Scale {
+    type: ScaleType;
+    min: number;
+    max: number;
+    rangeStart: number;   // pixel of `min`
+    rangeEnd: number;     // pixel of `max`
+    toScreen: (value: number) => number;
+    fromScreen: (pixel: number) => number;
+    ticks: (targetCount: number) => AxisTicks;
+}
+
+// Guards against degenerate axes producing endless tick loops
+const MAX_TICKS = 1000;
+
+const niceStep = (span: number, targetCount: number): number => {
+    const raw = span / Math.max(1, targetCount);
+    const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+    const residual = raw / magnitude;
+    const nice = residual < 1.5 ? 1 : residual < 3 ? 2 : residual < 7 ? 5 : 10;
+    return nice * magnitude;
+};
+
+// Multiples of step within [min, max], rounded so 0.1 + 0.2 prints as 0.3
+const stepsWithin = (min: number, max: number, step: number): number[] => {
+    const values: number[] = [];
+    if (!(step > 0) || !isFinite(step) || !isFinite(min) || !isFinite(max) || (max - min) / step > MAX_TICKS) return values;
+    const decimals = Math.max(0, -Math.floor(Math.log10(step)) + 2);
+    for (let i = Math.ceil(min / step - 1e-9); i * step <= max + step * 1e-9; i++) {
+        values.push(Number((i * step).toFixed(decimals)));
+    }
+    return values;
+};
+
+const linearTicks = (min: number, max: number, targetCount: number): AxisTicks => {
+    const step = niceStep(max - min, targetCount);
+    const mantissa = Math.round(step / Math.pow(10, Math.floor(Math.log10(step))));
+    const minorStep = step / (mantissa === 2 ? 4 : 5);
+    const major = stepsWithin(min, max, step);
+    const minor = stepsWithin(min, max, minorStep).filter(value => !major.some(m => Math.abs(m - value) < minorStep * 1e-6));
+    return { major, minor };
+};
+
+const logTicks = (min: number, max: number, targetCount: number): AxisTicks => {
+    const firstDecade = Math.floor(Math.log10(min));
+    const lastDecade = Math.ceil(Math.log10(max));
+    const inRange = (value: number) => value >= min * (1 - 1e-9) && value <= max * (1 + 1e-9);
+    const round = (value: number) => Number(value.toPrecision(6));
+
+    const candidates = (multipliers: number[]) => {
+        const values: number[] = [];
+        for (let decade = firstDecade; decade <= lastDecade; decade++) {
+            multipliers.forEach(m => values.push(round(m * Math.pow(10, decade))));
+        }
+        return values.filter(inRange);
+    };
+
+    const oneTwoFive = candidates([1, 2, 5]);
+    if (oneTwoFive.length >= 2 && oneTwoFive.length <= targetCount + 2) {
+        return { major: oneTwoFive, minor: candidates([1, 2, 3, 4, 5, 6, 7, 8, 9]).filter(value => !oneTwoFive.includes(value)) };
+    }
+
+    const powers = candidates([1]);
+    if (powers.length >= 2) {
+        // Too many decades for the space: label every other one
+        const stride = Math.ceil(powers.length / Math.max(2, targetCount));
+        return {
+            major: powers.filter((_, i) => i % stride === 0),
+            minor: candidates([2, 3, 4, 5, 6, 7, 8, 9])
+        };
+    }
+
+    // Less than a 1-2-5 step across the whole axis; fall back to linear spacing
+    return linearTicks(min, max, targetCount);
+};
+
+/**
+ * Scale from [min, max] to [rangeStart, rangeEnd] pixels. A log scale needs
+ * a positive minimum; otherwise the axis stays linear.
+ */
+export const createScale = (
+    requestedType: ScaleType,
+    min: number,
+    max: number,
+    rangeStart: number,
+    rangeEnd: number
+): Scale => {
+    const type: ScaleType = requestedType === 'log' && min > 0 && max > min ? 'log' : 'linear';
+    const transform = type === 'log' ? Math.log10 : (value: number) => value;
+    const inverse = type === 'log' ? (value: number) => Math.pow(10, value) : (value: number) => value;
+
+    const t0 = transform(min);
+    const t1 = transform(max);
+    const pixelsPerUnit = (rangeEnd - rangeStart) / (t1 - t0);
+
+    return {
+        type,
+        min,
+        max,
+        rangeStart,
+        rangeEnd,
+        toScreen: (value: number) => rangeStart + (transform(value) - t0) * pixelsPerUnit,
+        fromScreen: (pixel: number) => inverse(t0 + (pixel - rangeStart) / pixelsPerUnit),
+        ticks: (targetCount: number) => type === 'log' ? logTicks(min, max, targetCount) : linearTicks(min, max, targetCount)
+    };
+};
+
+/** Short label for a tick value. */
+export const formatTick = (value: number): string => {
+    if (value === 0) return '0';
+    const magnitude = Math.abs(value);
+    if (magnitude >= 1e5 || magnitude < 1e-3) return value.toExponential(0);
+    return String(Number(value.toPrecision(4)));
+};
+
+// Roughly one labelled tick per this many pixels
+export const TICK_SPACING_X = 80;
+export const TICK_SPACING_Y = 50;
+
+/** Minor and major gridlines for a pair of scales, behind the plot content. */
+export const drawGridlines = (g: Graphics, xScale: Scale, yScale: Scale) => {
+    const xTicks = xScale.ticks(Math.abs(xScale.rangeEnd - xScale.rangeStart) / TICK_SPACING_X);
+    const yTicks = yScale.ticks(Math.abs(yScale.rangeEnd - yScale.rangeStart) / TICK_SPACING_Y);
+    const [left, right] = [Math.min(xScale.rangeStart, xScale.rangeEnd), Math.max(xScale.rangeStart, xScale.rangeEnd)];
+    const [top, bottom] = [Math.min(yScale.rangeStart, yScale.rangeEnd), Math.max(yScale.rangeStart, yScale.rangeEnd)];
+
+    const lines = (xValues: number[], yValues: number[]) => {
+        xValues.forEach(value => {
+            const x = xScale.toScreen(value);
+            g.moveTo(x, top);
+            g.lineTo(x, bottom);
+        });
+        yValues.forEach(value => {
+            const y = yScale.toScreen(value);
+            g.moveTo(left, y);
+            g.lineTo(right, y);
+        });
+    };
+
+    lines(xTicks.minor, yTicks.minor);
+    g.stroke({ width: 1, color: 0xF0F0F0, alpha: 1 });
+    lines(xTicks.major, yTicks.major);
+    g.stroke({ width: 1, color: 0xD8D8D8, alpha: 1 });
+};
@@ -0,0 +1,123 @@
+import { Layer, Point } from '../types';
+import { ElasticLayer, rayleighPhaseVelocity, toElasticModel } from './dispersion';
+
+// Relative Vs step for the central differences
+const PERTURBATION = 0.01;
+// Fraction of the peak that still counts as "mainly controlled by"
+const BAND_LEVEL = 0.5;
+// Periods sampled when looking for the band a layer controls
+const BAND_SAMPLES = 40;
+// Pseudo-depth band used when the model has no root at a pick's period
+const WAVELENGTH_BAND: [number, number] = [1 / 3, 1 / 2];
+// A layer whose per-metre kernel stays below this share of the strongest at every period barely affects the curve
+const NEGLIGIBLE_KERNEL = 0.05;
+
+// Model with one layer's Vs scaled; Vp follows Vs only where the layer has no Vp of its own
+const perturbedModel = (layers: Layer[], index: number, factor: number): ElasticLayer[] =>
+    toElasticModel(layers.map((layer, i) => i === index ? { ...layer, velocity: layer.velocity * factor } : layer));
+
+// Normalised kernel (Vs/c)·∂c/∂Vs of one layer at each period, given the unperturbed velocities
+const kernelOf = (layers: Layer[], index: number, periods: number[], velocities: number[], mode: number): number[] => {
+    const faster = perturbedModel(layers, index, 1 + PERTURBATION);
+    const slower = perturbedModel(layers, index, 1 - PERTURBATION);
+    return periods.map((period, j) => {
+        const c = velocities[j];
+        if (isNaN(c)) return NaN;
+        return (rayleighPhaseVelocity(faster, period, mode) - rayleighPhaseVelocity(slower, period, mode)) / (2 * PERTURBATION * c);
+    });
+};
+
+/**
+ * Vs sensitivity kernels of every layer, indexed [layer][period]: the
+ * relative change in phase velocity per relative change in the layer's Vs,
+ * by central differences. NaN where the mode has no root.
+ */
+export const computeSensitivityKernels = (layers: Layer[], periods: number[], mode = 0): number[][] => {
+    if (layers.length === 0) return [];
+    const model = toElasticModel(layers);
+    const velocities = periods.map(period => rayleighPhaseVelocity(model, period, mode));
+    return layers.map((_, index) => kernelOf(layers, index, periods, velocities, mode));
+};
+
+/**
+ * Indices of layers with negligible sensitivity at every period. Judged per
+ * metre against the strongest layer at each period, so splitting a layer
+ * into thin ones doesn't make it look unresolved.
+ */
+export const insensitiveLayers = (layers: Layer[], kernels: number[][]): number[] =>
+    normalizedDepthKernels(layers, kernels).flatMap((row, index) =>
+        row.length > 0 && row.every(value => value < NEGLIGIBLE_KERNEL) ? [index] : []
+    );
+
+/**
+ * Kernels per metre of layer thickness, scaled so each period's largest is
+ * 1: where in depth each period's sensitivity is concentrated.
+ */
+export const normalizedDepthKernels = (layers: Layer[], kernels: number[][]): number[][] => {
+    const perMetre = kernels.map((row, i) =>
+        row.map(value => Math.abs(value) / Math.max(layers[i].endDepth - layers[i].startDepth, 1e-6))
+    );
+    const periodCount = kernels[0]?.length ?? 0;
+    const columnMax = Array.from({ length: periodCount }, (_, j) =>
+        Math.max(0, ...perMetre.map(row => row[j]).filter(value => !isNaN(value)))
+    );
+    return perMetre.map(row => row.map((value, j) => columnMax[j] > 0 && !isNaN(value) ? value / columnMax[j] : 0));
+};
+
+// Contiguous index range around the peak where values stay at or above BAND_LEVEL of it
+const peakRange = (values: number[]): [number, number] | null => {
+    let peak = -1;
+    values.forEach((value, i) => {
+        if (value > 0 && (peak < 0 || value > values[peak])) peak = i;
+    });
+    if (peak < 0) return null;
+
+    const threshold = values[peak] * BAND_LEVEL;
+    let lo = peak;
+    let hi = peak;
+    while (lo > 0 && values[lo - 1] >= threshold) lo--;
+    while (hi < values.length - 1 && values[hi + 1] >= threshold) hi++;
+    return [lo, hi];
+};
+
+/**
+ * Period band within [periodMin, periodMax] where a layer's kernel is
+ * largest, as its two ends on the fundamental-mode curve; null when the
+ * layer has no noticeable effect there.
+ */
+export const layerPeriodBand = (
+    layers: Layer[],
+    layerIndex: number,
+    periodMin: number,
+    periodMax: number
+): [Point, Point] | null => {
+    if (!layers[layerIndex] || !(periodMin > 0) || !(periodMax > periodMin) || !isFinite(periodMax)) return null;
+
+    const periods = Array.from({ length: BAND_SAMPLES }, (_, i) =>
+        periodMin * Math.pow(periodMax / periodMin, i / (BAND_SAMPLES - 1))
+    );
+    const model = toElasticModel(layers);
+    const velocities = periods.map(period => rayleighPhaseVelocity(model, period));
+    const range = peakRange(kernelOf(layers, layerIndex, periods, velocities, 0));
+    if (!range) return null;
+
+    const [lo, hi] = range;
+    return [{ x: periods[lo], y: velocities[lo] }, { x: periods[hi], y: velocities[hi] }];
+};
+
+/**
+ * Depth range a pick samples: the layers around the kernel peak, per metre
+ * so thick layers don't dominate. Falls back to wavelength / 3 to
+ * wavelength / 2 when the model has no root for the pick.
+ */
+export const pickDepthBand = (layers: Layer[], pick: Point): [number, number] => {
+    const kernel = computeSensitivityKernels(layers, [pick.x], pick.mode ?? 0).map(values => values[0]);
+    const perMetre = kernel.map((value, i) => value / Math.max(layers[i].endDepth - layers[i].startDepth, 1e-6));
+    const range = peakRange(perMetre);
+    if (range) {
+        return [layers[range[0]].startDepth, layers[range[1]].endDepth];
+    }
+
+    const wavelength = pick.x * pick.y;
+    return [wavelength * WAVELENGTH_BAND[0], wavelength * WAVELENGTH_BAND[1]];
+};
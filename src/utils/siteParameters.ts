@@ -0,0 +1,49 @@
+import { Layer } from '../types';
+
+export interface AverageVelocity {
+    velocity: number;
+    extrapolated: boolean;   // the model ends above the depth; its deepest layer was carried down
+}
+
+/**
+ * Time-averaged Vs from the surface to a depth, z / Σ(h / Vs). Anything
+ * above the first layer takes its velocity, anything below the last takes
+ * the last layer's, as a half-space.
+ */
+export const timeAveragedVelocity = (layers: Layer[], depth: number): AverageVelocity | null => {
+    if (layers.length === 0 || !(depth > 0)) return null;
+    const sorted = [...layers].sort((a, b) => a.startDepth - b.startDepth);
+    if (sorted.some(layer => !(layer.velocity > 0))) return null;
+
+    let time = Math.min(depth, Math.max(0, sorted[0].startDepth)) / sorted[0].velocity;
+    sorted.forEach(layer => {
+        const top = Math.max(0, layer.startDepth);
+        const bottom = Math.min(depth, layer.endDepth);
+        if (bottom > top) time += (bottom - top) / layer.velocity;
+    });
+    const modelBottom = sorted[sorted.length - 1].endDepth;
+    if (modelBottom < depth) time += (depth - Math.max(0, modelBottom)) / sorted[sorted.length - 1].velocity;
+
+    return { velocity: depth / time, extrapolated: modelBottom < depth };
+};
+
+/** Top of the shallowest layer at or above a Vs, e.g. 760 m/s for engineering bedrock; null if none reaches it. */
+export const depthToVelocity = (layers: Layer[], velocity: number): number | null => {
+    const layer = [...layers]
+        .sort((a, b) => a.startDepth - b.startDepth)
+        .find(l => l.velocity >= velocity);
+    return layer ? Math.max(0, layer.startDepth) : null;
+};
+
+// Lower Vs30 bound of each class, fastest first
+const NEHRP_CLASSES: [string, number][] = [['A', 1500], ['B', 760], ['C', 360], ['D', 180], ['E', 0]];
+const EC8_CLASSES: [string, number][] = [['A', 800], ['B', 360], ['C', 180], ['D', 0]];
+
+const classify = (classes: [string, number][], vs30: number) =>
+    classes.find(([, lower]) => vs30 > lower)?.[0] ?? classes[classes.length - 1][0];
+
+/** NEHRP / ASCE 7 site class from Vs30 alone (class F needs site-specific evaluation). */
+export const nehrpSiteClass = (vs30: number): string => classify(NEHRP_CLASSES, vs30);
+
+/** Eurocode 8 ground type from Vs,30 alone (types E, S1 and S2 need the soil profile). */
+export const ec8GroundType = (vs30: number): string => classify(EC8_CLASSES, vs30);
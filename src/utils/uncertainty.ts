@@ -0,0 +1,70 @@
+import { Point } from '../types';
+
+export type UncertaintyDisplay = 'none' | 'bars' | 'band';
+export type UncertaintyUnits = 'absolute' | 'percent';
+export type DefaultErrorModel = 'none' | 'fixed' | 'frequency';
+
+export interface UncertaintySettings {
+    display: UncertaintyDisplay;
+    units: UncertaintyUnits;               // how the picks' own uncertainty values are expressed
+    defaultModel: DefaultErrorModel;       // applied to picks without an uncertainty
+    fixedPercent: number;
+    lowFrequencyPercent: number;           // at the longest picked period
+    highFrequencyPercent: number;          // at the shortest picked period
+}
+
+export const UNCERTAINTY_DISPLAYS: { value: UncertaintyDisplay; label: string }[] = [
+    { value: 'none', label: 'Hidden' },
+    { value: 'bars', label: 'Error bars' },
+    { value: 'band', label: 'Band' },
+];
+
+export const DEFAULT_ERROR_MODELS: { value: DefaultErrorModel; label: string }[] = [
+    { value: 'none', label: 'None' },
+    { value: 'fixed', label: 'Fixed %' },
+    { value: 'frequency', label: 'Frequency-dependent %' },
+];
+
+/**
+ * Velocity standard deviation of each pick in m/s, NaN where neither the
+ * pick nor the default model gives one. The frequency-dependent model
+ * interpolates its percentage linearly in log period across the picks.
+ */
+export const resolveUncertainties = (points: Point[], settings: UncertaintySettings): number[] => {
+    const periods = points.map(point => point.x).filter(period => period > 0);
+    const logMin = Math.log(Math.min(...periods));
+    const logMax = Math.log(Math.max(...periods));
+
+    const defaultPercent = (period: number): number => {
+        switch (settings.defaultModel) {
+            case 'none':
+                return NaN;
+            case 'fixed':
+                return settings.fixedPercent;
+            case 'frequency': {
+                const t = logMax > logMin ? (Math.log(period) - logMin) / (logMax - logMin) : 0;
+                return settings.highFrequencyPercent + t * (settings.lowFrequencyPercent - settings.highFrequencyPercent);
+            }
+        }
+    };
+
+    return points.map(point => {
+        if (point.uncertainty !== undefined) {
+            return settings.units === 'percent' ? point.y * point.uncertainty / 100 : point.uncertainty;
+        }
+        return point.y * defaultPercent(point.x) / 100;
+    });
+};
+
+/**
+ * Residual weights proportional to 1/sigma, scaled so that the weighted RMS
+ * stays in velocity units and equals the plain RMS when all sigmas are equal.
+ * Null unless every pick has a positive uncertainty.
+ */
+export const misfitWeights = (uncertainties: number[]): number[] | null => {
+    if (uncertainties.length === 0 || !uncertainties.every(sigma => sigma > 0 && isFinite(sigma))) return null;
+
+    const sumInverseSquares = uncertainties.reduce((sum, sigma) => sum + 1 / (sigma * sigma), 0);
+    const reference = Math.sqrt(uncertainties.length / sumInverseSquares);
+    return uncertainties.map(sigma => reference / sigma);
+};
@@ -0,0 +1,90 @@
+import { AxisLimits, Layer } from '../types';
+import { Scale } from './scale';
+
+// Fraction of the data span added on each side when fitting the view to data
+const DATA_PADDING = 0.1;
+
+/** Limits a plot can be drawn with: finite, and min strictly below max on both axes. */
+export const isValidLimits = (limits: AxisLimits): boolean =>
+    [limits.xmin, limits.xmax, limits.ymin, limits.ymax].every(isFinite)
+    && limits.xmin < limits.xmax
+    && limits.ymin < limits.ymax;
+
+export const sameLimits = (a: AxisLimits, b: AxisLimits): boolean =>
+    a.xmin === b.xmin && a.xmax === b.xmax && a.ymin === b.ymin && a.ymax === b.ymax;
+
+// Data values at two pixels of one axis, as an ordered [min, max]
+const spanBetween = (scale: Scale, pixelA: number, pixelB: number): [number, number] => {
+    const a = scale.fromScreen(pixelA);
+    const b = scale.fromScreen(pixelB);
+    return a < b ? [a, b] : [b, a];
+};
+
+const fromPixelSpans = (
+    xScale: Scale,
+    yScale: Scale,
+    [x0, x1]: [number, number],
+    [y0, y1]: [number, number]
+): AxisLimits => {
+    const [xmin, xmax] = spanBetween(xScale, x0, x1);
+    const [ymin, ymax] = spanBetween(yScale, y0, y1);
+    return { xmin, xmax, ymin, ymax };
+};
+
+/**
+ * Zoom about a screen point by `factor` (< 1 zooms in). Works in pixel space
+ * through the scales, so log axes zoom evenly per decade.
+ */
+export const zoomAt = (xScale: Scale, yScale: Scale, x: number, y: number, factor: number): AxisLimits =>
+    fromPixelSpans(
+        xScale,
+        yScale,
+        [x + (xScale.rangeStart - x) * factor, x + (xScale.rangeEnd - x) * factor],
+        [y + (yScale.rangeStart - y) * factor, y + (yScale.rangeEnd - y) * factor]
+    );
+
+/** Shift the view so the content moves by (dx, dy) pixels. */
+export const panBy = (xScale: Scale, yScale: Scale, dx: number, dy: number): AxisLimits =>
+    fromPixelSpans(
+        xScale,
+        yScale,
+        [xScale.rangeStart - dx, xScale.rangeEnd - dx],
+        [yScale.rangeStart - dy, yScale.rangeEnd - dy]
+    );
+
+/** Limits covering a screen rectangle. */
+export const boxLimits = (xScale: Scale, yScale: Scale, x0: number, y0: number, x1: number, y1: number): AxisLimits =>
+    fromPixelSpans(xScale, yScale, [x0, x1], [y0, y1]);
+
+/**
+ * Padded limits around data values. Padding is dropped on a side where it
+ * would make a positive range reach zero, so log axes stay valid; a single
+ * value gets a span of its own.
+ */
+export const dataLimits = (xValues: number[], yValues: number[]): AxisLimits | null => {
+    const pad = (values: number[]): [number, number] | null => {
+        const finite = values.filter(isFinite);
+        if (finite.length === 0) return null;
+        const min = Math.min(...finite);
+        const max = Math.max(...finite);
+        const padding = (max - min) * DATA_PADDING || Math.abs(min) * DATA_PADDING || 1;
+        return [min > 0 && min <= padding ? min * (1 - DATA_PADDING) : min - padding, max + padding];
+    };
+
+    const x = pad(xValues);
+    const y = pad(yValues);
+    return x && y ? { xmin: x[0], xmax: x[1], ymin: y[0], ymax: y[1] } : null;
+};
+
+/** Layer plot limits around a model: velocities padded by 10%, depths scaled by 0.9 / 1.1. */
+export const layerLimits = (layers: Layer[]): AxisLimits | null => {
+    if (layers.length === 0) return null;
+    const depthValues = layers.flatMap(layer => [layer.startDepth, layer.endDepth]);
+    const velocityValues = layers.map(layer => layer.velocity);
+    return {
+        xmin: Math.min(...velocityValues) * 0.9,
+        xmax: Math.max(...velocityValues) * 1.1,
+        ymin: Math.min(...depthValues) * 0.9,
+        ymax: Math.max(...depthValues) * 1.1
+    };
+};
@@ -0,0 +1,94 @@
+import { AxisLimits, Point } from '../types';
+
+// What LeftPlot shows along x; picks themselves are always stored by period
+export type XDomain = 'period' | 'frequency' | 'wavelength';
+
+export const X_DOMAINS: { value: XDomain; label: string; title: string }[] = [
+    { value: 'period', label: 'Period', title: 'Period (s)' },
+    { value: 'frequency', label: 'Frequency', title: 'Frequency (Hz)' },
+    { value: 'wavelength', label: 'Wavelength', title: 'Wavelength (m)' },
+];
+
+export const xDomainTitle = (domain: XDomain): string =>
+    X_DOMAINS.find(option => option.value === domain)?.title ?? domain;
+
+/** x coordinate of a period / phase velocity pair in the given domain. */
+export const toDomainX = (domain: XDomain, period: number, velocity: number): number => {
+    switch (domain) {
+        case 'period':
+            return period;
+        case 'frequency':
+            return 1 / period;
+        case 'wavelength':
+            return velocity * period;
+    }
+};
+
+/** Period for an x coordinate in the given domain; wavelength needs the velocity at that point. */
+export const fromDomainX = (domain: XDomain, x: number, velocity: number): number => {
+    switch (domain) {
+        case 'period':
+            return x;
+        case 'frequency':
+            return 1 / x;
+        case 'wavelength':
+            return x / velocity;
+    }
+};
+
+/** Period range that covers every point inside the plot limits. */
+export const periodRange = (limits: AxisLimits, domain: XDomain): [number, number] => {
+    switch (domain) {
+        case 'period':
+            return [limits.xmin, limits.xmax];
+        case 'frequency':
+            return [1 / limits.xmax, 1 / limits.xmin];
+        case 'wavelength':
+            return [limits.xmin / limits.ymax, limits.xmax / limits.ymin];
+    }
+};
+
+// Velocity used to turn period limits into wavelength limits and back; the
+// geometric mean keeps the conversion reversible while the velocity axis is unchanged
+const referenceVelocity = (limits: AxisLimits) => Math.sqrt(Math.abs(limits.ymin * limits.ymax));
+
+// Share of the top of the range kept as its bottom when a linear axis reaches zero or below
+const POSITIVE_RANGE_FLOOR = 1e-3;
+
+/**
+ * Convert plot limits between x domains; the velocity axis is unchanged.
+ * Every domain is positive, so a linear axis reaching zero or below is cut
+ * off just above zero first rather than turned into infinite limits; one
+ * entirely at or below zero has no conversion and gives NaN limits.
+ */
+export const convertLimits = (original: AxisLimits, from: XDomain, to: XDomain): AxisLimits => {
+    if (from === to) return original;
+    if (!(original.xmax > 0)) return { ...original, xmin: NaN, xmax: NaN };
+    const limits = original.xmin <= 0 && original.xmax > 0
+        ? { ...original, xmin: original.xmax * POSITIVE_RANGE_FLOOR }
+        : original;
+    const velocity = referenceVelocity(limits);
+
+    const periods = from === 'frequency'
+        ? [1 / limits.xmax, 1 / limits.xmin]
+        : from === 'wavelength'
+            ? [limits.xmin / velocity, limits.xmax / velocity]
+            : [limits.xmin, limits.xmax];
+
+    const [xmin, xmax] = to === 'frequency'
+        ? [1 / periods[1], 1 / periods[0]]
+        : to === 'wavelength'
+            ? [periods[0] * velocity, periods[1] * velocity]
+            : periods;
+
+    return { ...limits, xmin, xmax };
+};
+
+/**
+ * Pseudo-depth profile of the picks: each pick at depth wavelength / divisor
+ * against its phase velocity, the usual quick proxy for the depth it senses.
+ */
+export const pseudoDepthProfile = (points: Point[], divisor: number): { velocity: number; depth: number }[] =>
+    points
+        .map(point => ({ velocity: point.y, depth: (point.y * point.x) / divisor }))
+        .sort((a, b) => a.depth - b.depth);
@@ -0,0 +1,82 @@
+// Minimal ZIP writer: stored (uncompressed) entries, enough to hand several
+// text files over as one download without a compression library.
+
+export interface ZipEntry {
+    name: string;   // path inside the archive, '/' separated
+    text: string;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xFFFFFFFF;
+    for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS time and date fields of a timestamp
+const dosDateTime = (date: Date): [number, number] => [
+    (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+/** Build a ZIP archive of text files, names and contents as UTF-8. */
+export const createZip = (entries: ZipEntry[], date = new Date()): Blob => {
+    const encoder = new TextEncoder();
+    const [time, day] = dosDateTime(date);
+    const parts: Uint8Array[] = [];
+    const directory: Uint8Array[] = [];
+    let offset = 0;
+
+    entries.forEach(entry => {
+        const name = encoder.encode(entry.name);
+        const data = encoder.encode(entry.text);
+        const crc = crc32(data);
+
+        // Fields shared by the local header and the central directory record, from "version needed" on
+        const common = (view: DataView, at: number) => {
+            view.setUint16(at, 20, true);              // version needed
+            view.setUint16(at + 2, 0x0800, true);      // UTF-8 names
+            view.setUint16(at + 4, 0, true);           // stored
+            view.setUint16(at + 6, time, true);
+            view.setUint16(at + 8, day, true);
+            view.setUint32(at + 10, crc, true);
+            view.setUint32(at + 14, data.length, true);
+            view.setUint32(at + 18, data.length, true);
+            view.setUint16(at + 22, name.length, true);
+        };
+
+        const local = new Uint8Array(30 + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034B50, true);
+        common(localView, 4);
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014B50, true);
+        centralView.setUint16(4, 20, true);             // version made by
+        common(centralView, 6);
+        centralView.setUint32(42, offset, true);        // local header offset
+        central.set(name, 46);
+
+        parts.push(local, data);
+        directory.push(central);
+        offset += local.length + data.length;
+    });
+
+    const directorySize = directory.reduce((sum, record) => sum + record.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054B50, true);
+    endView.setUint16(8, entries.length, true);
+    endView.setUint16(10, entries.length, true);
+    endView.setUint32(12, directorySize, true);
+    endView.setUint32(16, offset, true);
+
+    return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+};
@@ -0,0 +1,26 @@
+import { Layer, Point } from '../types';
+import { InversionOptions, InversionProgress, invertLayerModel } from '../utils/inversion';
+
+export interface InversionRequest {
+    layers: Layer[];
+    points: Point[];
+    options: InversionOptions;
+}
+
+export type InversionMessage =
+    | { type: 'progress'; progress: InversionProgress }
+    | { type: 'done'; progress: InversionProgress }
+    | { type: 'error'; message: string };
+
+// Cancelling is done by terminating the worker, so no message handling beyond the start request
+self.onmessage = (event: MessageEvent<InversionRequest>) => {
+    const { layers, points, options } = event.data;
+    const post = (message: InversionMessage) => self.postMessage(message);
+
+    try {
+        const result = invertLayerModel(layers, points, options, progress => post({ type: 'progress', progress }));
+        post({ type: 'done', progress: result });
+    } catch (error) {
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};